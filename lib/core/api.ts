@@ -1,6 +1,17 @@
-import request = require('superagent');
 import Q = require('q');
 import _ = require('underscore');
+import Config = require('./config');
+import Retry = require('./retry');
+import Cache = require('./cache');
+import Transport = require('./transports/transport');
+import SuperagentTransport = require('./transports/superagent');
+import Errors = require('./errors');
+import Transforms = require('./transforms');
+import Export = require('./export');
+import Rows = require('./rows');
+import Scheduler = require('./scheduler');
+import Middleware = require('./middleware');
+import Instrumentation = require('./instrumentation');
 
 module Api {    
     export interface Query {
@@ -50,7 +61,7 @@ module Api {
     }
 
     export interface QueryFilter {
-        [index: string]: string;    
+        [index: string]: any;
     }
 
     export interface QueryFilters {
@@ -96,12 +107,74 @@ module Api {
             return _.difference(_.keys(_.first(results)), this.metadata.groups.concat(['_count']));
         }
 
+        public sortBy(select: string, direction: string = 'asc'): QueryResults {
+            return this._transform(results => Transforms.sortBy(results, select, direction));
+        }
+
+        public top(count: number, options?: Transforms.TopOptions): QueryResults {
+            return this._transform(results => Transforms.top(results, count, options));
+        }
+
+        public limit(count: number): QueryResults {
+            return this._transform(results => Transforms.limit(results, count));
+        }
+
+        public filterRows(predicate: Transforms.RowPredicate): QueryResults {
+            return this._transform(results => Transforms.filterRows(results, predicate));
+        }
+
+        public fillGaps(options?: Transforms.FillGapsOptions): QueryResults {
+            return this._transform(results => Transforms.fillGaps(results, options));
+        }
+
+        public toRows(): Rows.ResultRow[] {
+            return Rows.toRows(this);
+        }
+
+        public toMatrix(rowKey: string, columnKey: string, select: string): Rows.Matrix {
+            return Rows.toMatrix(this, rowKey, columnKey, select);
+        }
+
+        public toCSV(options?: Export.ExportOptions): string {
+            return Export.toCSV(this, options);
+        }
+
+        public toTSV(options?: Export.ExportOptions): string {
+            return Export.toTSV(this, options);
+        }
+
+        public toNDJSON(options?: Export.ExportOptions): string {
+            return Export.toNDJSON(this, options);
+        }
+
+        public download(filename: string, format: string = 'csv', options?: Export.ExportOptions): boolean {
+            var formats: { [format: string]: (options?: Export.ExportOptions) => string } = {
+                csv: options => this.toCSV(options),
+                tsv: options => this.toTSV(options),
+                ndjson: options => this.toNDJSON(options)
+            };
+
+            if (!formats[format]) {
+                throw new Error('Unknown export format "' + format + '".');
+            }
+
+            return Export.download(formats[format](options), filename, Export.mimeTypes[format]);
+        }
+
         public clone(): QueryResults{
             return new QueryResults({
                 metadata: _.clone(this.metadata),
                 results: JSON.parse(JSON.stringify(this.results))
             });
-        }            
+        }
+
+        private _transform(transform: (results: QueryResults) => QueryResultItem[]): QueryResults {
+            var transformed = this.clone();
+
+            transformed.results = transform(transformed);
+
+            return transformed;
+        }
     }
 
     export type QueryResultsFactory = () => Q.IPromise<Api.QueryResults>;
@@ -109,75 +182,412 @@ module Api {
 
     export interface ClientDeferredQuery {
         deferred: Q.Deferred<any>;
-        request: request.Request<any>;
+        request: Transport.AbortController;
+    }
+
+    export interface ClientOptions {
+        retry?: Config.RetryOptions;
+        cache?: Config.CacheOptions;
+        scheduler?: Config.SchedulerOptions;
+        transport?: Transport.Transport;
+        pushKey?: string;
+        readKey?: string;
+        requireKeys?: boolean;
+        middleware?: Middleware.Middleware[];
+    }
+
+    export interface QueryOptions {
+        cache?: Config.CachePolicy|boolean;
+        priority?: string;
+    }
+
+    interface ClientRequest {
+        kind: string;
+        method: string;
+        url: string;
+        apiKey: string;
+        body?: any;
+        collection?: string;
+        query?: Api.Query;
+        onEvent?: (event: Instrumentation.InstrumentationEvent) => void;
+    }
+
+    interface InFlightQuery {
+        query: ClientDeferredQuery;
+        subscribers: number;
+        lastEvent: Instrumentation.InstrumentationEvent;
     }
 
     export class Client {
         _baseUrl: string;
         _projectId: string;
-        _apiKey: string;
+        _pushKey: string;
+        _readKey: string;
+        _requireKeys: boolean;
+        _queryRetryPolicy: Config.RetryPolicy;
+        _pushRetryPolicy: Config.RetryPolicy;
+        _cache: Cache.QueryCache;
+        private _inFlightQueries: { [key: string]: InFlightQuery };
+        _transport: Transport.Transport;
+        _scheduler: Scheduler.QueryScheduler;
+        _middleware: Middleware.Middleware[];
+        _events: Instrumentation.EventEmitter;
+
+        constructor(baseUrl: string, projectId: string, apiKey: string, options?: ClientOptions) {
+            options = options || {};
 
-        constructor(baseUrl: string, projectId: string, apiKey: string) {
             this._baseUrl = baseUrl;
             this._projectId = projectId;
-            this._apiKey = apiKey;
+            this._pushKey = options.pushKey || apiKey;
+            this._readKey = options.readKey || apiKey;
+            this._requireKeys = options.requireKeys !== false;
+            this._middleware = options.middleware || [];
+            this._queryRetryPolicy = Retry.resolvePolicy(options.retry, 'query');
+            this._pushRetryPolicy = Retry.resolvePolicy(options.retry, 'push');
+            this._cache = new Cache.QueryCache(options.cache);
+            this._inFlightQueries = {};
+            this._transport = options.transport || new SuperagentTransport();
+            this._scheduler = new Scheduler.QueryScheduler(options.scheduler);
+            this._events = new Instrumentation.EventEmitter();
         }
 
-        public query(collection: string, query: Api.Query): ClientDeferredQuery {
-            var deferred = Q.defer(),
-                queryJson = JSON.stringify(query),
-                url = this._buildUrl('/events/' + collection),
-                get = request.get(url).query({ query: queryJson });
+        public query(collection: string, query: Api.Query, options?: QueryOptions): ClientDeferredQuery {
+            if (!this._readKey && this._requireKeys) {
+                return this._rejectWithoutKey('query', 'A read key is required to run queries.', collection, query);
+            }
+
+            var cachePolicy = this._cache.resolvePolicy(options ? options.cache : null),
+                priority = options && options.priority ? options.priority : 'normal',
+                cacheKey = cachePolicy ? Cache.buildKey(collection, query) : null,
+                cached = cachePolicy ? this._cache.get(cacheKey) : null;
+
+            if (cached && this._cache.isFresh(cached, cachePolicy)) {
+                return this._resolveFromCache(collection, query, cached);
+            }
+
+            if (cached && cachePolicy.staleWhileRevalidate) {
+                this._requestSharedQuery(collection, query, cacheKey, 'low').deferred.promise.then(null, () => {});
+                return this._resolveFromCache(collection, query, cached);
+            }
 
-            return this._send(get, r => new QueryResults(<QueryResponse>r.body));
+            return this._requestSharedQuery(collection, query, cacheKey, priority);
+        }
+
+        public schedulerMetrics(): Scheduler.SchedulerMetrics {
+            return this._scheduler.metrics();
+        }
+
+        public on(event: string, handler: Instrumentation.EventHandler): () => void {
+            return this._events.on(event, handler);
+        }
+
+        public off(event: string, handler: Instrumentation.EventHandler) {
+            this._events.off(event, handler);
+        }
+
+        public reportQueryError(collection: string, query: Api.Query, error: any) {
+            var event = this._buildEvent(collection, query);
+
+            this._events.emit('query:start', event);
+            this._events.emit('query:error', _.extend({}, event, { status: error ? error.status : null, error: error }));
         }
 
         public pushBatch(batches: any): Q.IPromise<any> {
-            var url = this._buildUrl('/events'),
-                post = request.post(url).send(batches);
+            var url = this._buildUrl('/events');
+
+            if (!this._pushKey && this._requireKeys) {
+                return this._rejectWithoutKey('push', 'A push key is required to push events.', null, null, batches).deferred.promise;
+            }
 
-            return this._send(post, r => r.body).deferred.promise;
+            return this._send({ kind: 'push', method: 'POST', url: url, apiKey: this._pushKey, body: batches }, r => r.body, this._pushRetryPolicy).deferred.promise;
         }
 
         public push(collection: string, newEvent: any): Q.IPromise<any> {
-            var url = this._buildUrl('/events/' + collection),
-                post = request.post(url).send(newEvent);
+            var url = this._buildUrl('/events/' + collection);
 
-            return this._send(post, r => r.body).deferred.promise;
+            if (!this._pushKey && this._requireKeys) {
+                return this._rejectWithoutKey('push', 'A push key is required to push events.', collection).deferred.promise;
+            }
+
+            return this._send({ kind: 'push', method: 'POST', url: url, apiKey: this._pushKey, body: newEvent, collection: collection }, r => r.body, this._pushRetryPolicy).deferred.promise;
         }
 
-        private _send(requestToSend: request.Request<any>, resultsFactory: (response) => any): ClientDeferredQuery{
-            var deferred = Q.defer();
+        // Beacons can't set headers or be observed, so the push key goes in the query string and neither middleware
+        // nor instrumentation events run for them.
+        public sendBeacon(batches: any): boolean {
+            var beaconNavigator: any = typeof navigator !== 'undefined' ? navigator : null;
+
+            if (!beaconNavigator || !beaconNavigator.sendBeacon || !this._pushKey) {
+                return false;
+            }
 
-            requestToSend
-                .set('X-Project-Id', this._projectId)
-                .set('X-Api-Key', this._apiKey)
-                .end((err: any, res: request.Response) => {
-                    if(err) {
-                        if(!err.status) {
-                            err.status = 'NetworkFailure';
+            var url = this._buildUrl('/events') +
+                '?projectId=' + encodeURIComponent(this._projectId) +
+                '&apiKey=' + encodeURIComponent(this._pushKey);
+
+            return beaconNavigator.sendBeacon(url, JSON.stringify(batches));
+        }
+
+        private _requestSharedQuery(collection: string, query: Api.Query, cacheKey: string, priority: string): ClientDeferredQuery {
+            var key = Cache.buildKey(collection, query),
+                inFlight = this._inFlightQueries[key],
+                deferred = Q.defer(),
+                controller = new Transport.AbortController();
+
+            var forget = () => {
+                if (this._inFlightQueries[key] === inFlight) {
+                    delete this._inFlightQueries[key];
+                }
+            };
+
+            if (!inFlight) {
+                inFlight = this._inFlightQueries[key] = { query: null, subscribers: 0, lastEvent: null };
+                inFlight.query = this._scheduler.schedule(() => this._requestQuery(collection, query, cacheKey, event => inFlight.lastEvent = event), priority);
+                inFlight.query.deferred.promise.then(forget, forget);
+            } else {
+                this._instrumentCoalescedQuery(collection, query, inFlight, controller);
+            }
+
+            inFlight.subscribers++;
+            inFlight.query.deferred.promise.then(
+                (results: QueryResults) => deferred.resolve(results.clone()),
+                error => deferred.reject(error));
+
+            Transport.onAbort(controller.signal, () => {
+                inFlight.subscribers--;
+
+                if (inFlight.subscribers === 0) {
+                    forget();
+                    inFlight.query.request.abort();
+                }
+            });
+
+            return { deferred: deferred, request: controller };
+        }
+
+        private _instrumentCoalescedQuery(collection: string, query: Api.Query, inFlight: InFlightQuery, controller: Transport.AbortController) {
+            var joinedAt = new Date().getTime(),
+                finished = false,
+                event = _.extend(this._buildEvent(collection, query), { coalesced: true });
+
+            var finish = (outcome: string, error?: any) => {
+                if (finished) {
+                    return;
+                }
+
+                finished = true;
+                this._events.emit('query:' + outcome, _.extend({}, event, inFlight.lastEvent, {
+                    durationMs: new Date().getTime() - joinedAt,
+                    coalesced: true,
+                    error: error
+                }));
+            };
+
+            this._events.emit('query:start', event);
+            inFlight.query.deferred.promise.then(() => finish('success'), error => finish('error', error));
+            Transport.onAbort(controller.signal, () => finish('error', new Errors.ConnectAbortError('request aborted', null, query)));
+        }
+
+        private _requestQuery(collection: string, query: Api.Query, cacheKey: string, onEvent?: (event: Instrumentation.InstrumentationEvent) => void): ClientDeferredQuery {
+            var queryJson = JSON.stringify(query),
+                url = this._buildUrl('/events/' + collection) + '?query=' + encodeURIComponent(queryJson);
+
+            return this._send({ kind: 'query', method: 'GET', url: url, apiKey: this._readKey, collection: collection, query: query, onEvent: onEvent }, r => {
+                if (cacheKey) {
+                    this._cache.set(cacheKey, r.body);
+                }
+
+                return new QueryResults(<QueryResponse>r.body);
+            }, this._queryRetryPolicy);
+        }
+
+        private _rejectWithoutKey(kind: string, message: string, collection: string, query?: Api.Query, batch?: any): ClientDeferredQuery {
+            var deferred = Q.defer(),
+                error = new Errors.ConnectAuthError(message, 'MissingKey', null, query),
+                event = _.extend(this._buildEvent(collection, query), { collections: batch ? _.keys(batch) : undefined });
+
+            if (kind === 'query') {
+                this._events.emit('query:start', event);
+            }
+
+            this._events.emit(kind + ':error', _.extend({}, event, { status: error.status, error: error }));
+            deferred.reject(error);
+
+            return { deferred: deferred, request: new Transport.AbortController() };
+        }
+
+        private _buildEvent(collection: string, query: Api.Query): Instrumentation.InstrumentationEvent {
+            return { collection: collection || null, query: query, durationMs: 0, status: null, responseSize: null, fromCache: false, coalesced: false };
+        }
+
+        private _resolveFromCache(collection: string, query: Api.Query, cached: Cache.CacheEntry): ClientDeferredQuery {
+            var deferred = Q.defer(),
+                event = _.extend(this._buildEvent(collection, query), { fromCache: true });
+
+            this._events.emit('query:start', event);
+            this._events.emit('query:success', _.extend({}, event, { responseSize: JSON.stringify(cached.response).length }));
+
+            deferred.resolve(new QueryResults(cached.response));
+
+            return { deferred: deferred, request: new Transport.AbortController() };
+        }
+
+        private _send(clientRequest: ClientRequest, resultsFactory: (response: Transport.TransportResponse) => any, retryPolicy: Config.RetryPolicy): ClientDeferredQuery{
+            var deferred = Q.defer(),
+                controller = new Transport.AbortController(),
+                attempt = 0,
+                retryTimeout: any,
+                startedAt = new Date().getTime(),
+                finished = false;
+
+            var emit = (outcome: string, response?: Transport.TransportResponse, error?: any) => {
+                var batch = clientRequest.collection == null && clientRequest.body ? clientRequest.body : null,
+                    event = _.extend(this._buildEvent(clientRequest.collection, clientRequest.query), {
+                        collections: batch ? _.keys(batch) : undefined,
+                        durationMs: outcome === 'start' ? 0 : new Date().getTime() - startedAt,
+                        status: response ? response.status : (error ? error.status : null),
+                        responseSize: Instrumentation.responseSize(response),
+                        error: error
+                    });
+
+                this._events.emit(clientRequest.kind + ':' + outcome, event);
+
+                if (clientRequest.onEvent) {
+                    clientRequest.onEvent(event);
+                }
+            };
+
+            var reject = (error: any, response?: Transport.TransportResponse) => {
+                if (!finished) {
+                    finished = true;
+                    emit('error', response, error);
+                }
+
+                deferred.reject(error);
+            };
+
+            var retryOrReject = (error: any, retryAfter: string, response?: Transport.TransportResponse) => {
+                var delay = Retry.nextDelay(retryPolicy, attempt, error.status, retryAfter);
+
+                if (delay == null) {
+                    reject(error, response);
+                    return;
+                }
+
+                retryTimeout = setTimeout(sendAttempt, delay);
+            };
+
+            var sendAttempt = () => {
+                attempt++;
+
+                var context: Middleware.RequestContext = {
+                    method: clientRequest.method,
+                    url: clientRequest.url,
+                    headers: this._buildHeaders(clientRequest.apiKey, clientRequest.body != null),
+                    body: clientRequest.body,
+                    collection: clientRequest.collection,
+                    query: clientRequest.query,
+                    attempt: attempt
+                };
+
+                var fail = (error: any, retryAfter: string, response?: Transport.TransportResponse) => {
+                    var errorContext = <Middleware.ErrorContext>_.extend({ error: error, response: response }, context);
+
+                    Middleware.run(this._middleware, 'onError', errorContext, () => {
+                        if (!controller.signal.aborted) {
+                            retryOrReject(errorContext.error, retryAfter, response);
+                        }
+                    }, reject);
+                };
+
+                var handleResponse = (response: Transport.TransportResponse) => {
+                    var responseContext = <Middleware.ResponseContext>_.extend({ response: response }, context);
+
+                    Middleware.run(this._middleware, 'onResponse', responseContext, () => {
+                        var finalResponse = responseContext.response;
+
+                        if (controller.signal.aborted) {
+                            return;
                         }
-                        deferred.reject(err);
-                        return;
-                    } 
 
-                    if (!res.ok) {
-                        deferred.reject(res.error);
+                        if (finalResponse.status < 200 || finalResponse.status >= 300) {
+                            var retryAfter = Transport.lowerCaseHeaders(finalResponse.headers)['retry-after'];
+
+                            fail(Errors.fromResponse(finalResponse.status, finalResponse.body, finalResponse.text, context.method, context.url, context.query, retryAfter), retryAfter, finalResponse);
+                            return;
+                        }
+
+                        var results = resultsFactory(finalResponse);
+
+                        finished = true;
+                        emit('success', finalResponse);
+                        deferred.resolve(results);
+                    }, reject);
+                };
+
+                Middleware.run(this._middleware, 'onRequest', context, () => {
+                    if (controller.signal.aborted) {
                         return;
                     }
 
-                    var results = resultsFactory(res);
-                    deferred.resolve(results);
-                });     
+                    this._transport.send({
+                        method: context.method,
+                        url: context.url,
+                        headers: context.headers,
+                        body: context.body != null ? JSON.stringify(context.body) : undefined,
+                        signal: controller.signal
+                    }).then(response => {
+                        if (!controller.signal.aborted) {
+                            handleResponse(response);
+                        }
+                    }, error => {
+                        if (controller.signal.aborted) {
+                            return;
+                        }
 
-            return { deferred: deferred, request: requestToSend };
+                        var message = error && error.message ? error.message : 'Network failure';
+
+                        fail(new Errors.ConnectNetworkError(message, 'NetworkFailure', context.url, context.query), null);
+                    }).then(null, reject);
+                }, reject);
+            };
+
+            Transport.onAbort(controller.signal, () => {
+                clearTimeout(retryTimeout);
+
+                if (!finished) {
+                    finished = true;
+                    emit('error', null, new Errors.ConnectAbortError('request aborted', clientRequest.url, clientRequest.query));
+                }
+            });
+
+            if (clientRequest.kind === 'query') {
+                emit('start');
+            }
+
+            sendAttempt();
+
+            return { deferred: deferred, request: controller };
+        }
+
+        private _buildHeaders(apiKey: string, hasBody: boolean): Transport.Headers {
+            var headers: Transport.Headers = {
+                'Accept': 'application/json',
+                'X-Project-Id': this._projectId,
+                'X-Api-Key': apiKey
+            };
+
+            if (hasBody) {
+                headers['Content-Type'] = 'application/json';
+            }
+
+            return headers;
         }
 
         private _buildUrl(path: string): string {
             return this._baseUrl + path;
         }
     }
-    
 }
 
 export = Api;
\ No newline at end of file
@@ -0,0 +1,120 @@
+import Q = require('q');
+import _ = require('underscore');
+import Config = require('./config');
+import Errors = require('./errors');
+
+module Batcher {
+    interface BufferedEvent {
+        collection: string;
+        event: any;
+        deferred: Q.Deferred<any>;
+    }
+
+    export type BatchSender = (batch: any) => Q.IPromise<any>;
+    export type BeaconSender = (batch: any) => boolean;
+
+    export class EventBatcher {
+        private _options: Config.BatchingOptions;
+        private _pushBatch: BatchSender;
+        private _sendBeacon: BeaconSender;
+        private _buffer: BufferedEvent[];
+        private _flushTimeout: any;
+
+        constructor(options: Config.BatchingOptions, pushBatch: BatchSender, sendBeacon?: BeaconSender) {
+            this._options = _.extend({ maxBatchSize: 50, flushIntervalMs: 1000, useBeacon: false }, options);
+            this._pushBatch = pushBatch;
+            this._sendBeacon = sendBeacon;
+            this._buffer = [];
+            this._flushTimeout = null;
+        }
+
+        public add(collection: string, event: any): Q.IPromise<any> {
+            var deferred = Q.defer();
+
+            this._buffer.push({ collection: collection, event: event, deferred: deferred });
+
+            if (this._buffer.length >= this._options.maxBatchSize) {
+                this.flush();
+            } else if (this._flushTimeout == null) {
+                this._flushTimeout = setTimeout(() => this.flush(), this._options.flushIntervalMs);
+            }
+
+            return deferred.promise;
+        }
+
+        public pendingCount(): number {
+            return this._buffer.length;
+        }
+
+        public flush(): Q.IPromise<any> {
+            var buffered = this._takeBuffer();
+
+            if (!buffered.length) {
+                return Q(null);
+            }
+
+            return this._pushBatch(buildBatch(buffered)).then(
+                response => resolveEvents(buffered, response),
+                error => rejectEvents(buffered, error));
+        }
+
+        // Used when the page is going away: sendBeacon is the only request guaranteed to outlive the page.
+        // A beacon never returns a response, so its events are rejected as unconfirmed rather than resolved as delivered.
+        public flushWithBeacon() {
+            if (!this._buffer.length) {
+                return;
+            }
+
+            if (!this._options.useBeacon || !this._sendBeacon) {
+                this.flush();
+                return;
+            }
+
+            var buffered = this._takeBuffer();
+
+            if (this._sendBeacon(buildBatch(buffered))) {
+                rejectEvents(buffered, new Errors.ConnectError('The events were sent with a beacon, so their delivery cannot be confirmed.', 'Unconfirmed'));
+                return;
+            }
+
+            this._buffer = buffered.concat(this._buffer);
+            this.flush();
+        }
+
+        private _takeBuffer(): BufferedEvent[] {
+            var buffered = this._buffer;
+
+            clearTimeout(this._flushTimeout);
+            this._flushTimeout = null;
+            this._buffer = [];
+
+            return buffered;
+        }
+    }
+
+    function buildBatch(buffered: BufferedEvent[]): any {
+        return _.reduce(buffered, (batch, bufferedEvent: BufferedEvent) => {
+            (batch[bufferedEvent.collection] = batch[bufferedEvent.collection] || []).push(bufferedEvent.event);
+            return batch;
+        }, {});
+    }
+
+    function rejectEvents(buffered: BufferedEvent[], error: any) {
+        _.each(buffered, bufferedEvent => bufferedEvent.deferred.reject(error));
+    }
+
+    function resolveEvents(buffered: BufferedEvent[], response: any) {
+        var positions = {};
+
+        _.each(buffered, bufferedEvent => {
+            var collection = bufferedEvent.collection,
+                position = positions[collection] = (positions[collection] || 0) + 1,
+                collectionResults = response ? response[collection] : null,
+                result = _.isArray(collectionResults) ? collectionResults[position - 1] : response;
+
+            bufferedEvent.deferred.resolve(result);
+        });
+    }
+}
+
+export = Batcher;
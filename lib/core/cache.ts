@@ -0,0 +1,123 @@
+import _ = require('underscore');
+import Config = require('./config');
+
+module Cache {
+    export interface CacheEntry {
+        response: any;
+        storedAt: number;
+    }
+
+    export class MemoryStorage implements Config.CacheStorage {
+        private _entries: { [key: string]: string } = {};
+
+        public get(key: string): string {
+            return _.has(this._entries, key) ? this._entries[key] : null;
+        }
+
+        public set(key: string, value: string) {
+            this._entries[key] = value;
+        }
+
+        public remove(key: string) {
+            delete this._entries[key];
+        }
+    }
+
+    export class SessionStorageStorage implements Config.CacheStorage {
+        private _prefix: string;
+
+        constructor(prefix: string) {
+            this._prefix = prefix;
+        }
+
+        public get(key: string): string {
+            try {
+                return sessionStorage.getItem(this._prefix + key);
+            } catch(e) {
+                return null;
+            }
+        }
+
+        public set(key: string, value: string) {
+            try {
+                sessionStorage.setItem(this._prefix + key, value);
+            } catch(e) {
+                // Quota exceeded or storage disabled, the query will simply not be cached.
+            }
+        }
+
+        public remove(key: string) {
+            try {
+                sessionStorage.removeItem(this._prefix + key);
+            } catch(e) {
+            }
+        }
+    }
+
+    export function createStorage(storage: string|Config.CacheStorage): Config.CacheStorage {
+        if (storage && !_.isString(storage)) {
+            return <Config.CacheStorage>storage;
+        }
+
+        if (storage === 'sessionStorage' && typeof sessionStorage !== 'undefined') {
+            return new SessionStorageStorage('connect-query-cache:');
+        }
+
+        return new MemoryStorage();
+    }
+
+    export function buildKey(collection: string, query: any): string {
+        return collection + ':' + JSON.stringify(query);
+    }
+
+    export class QueryCache {
+        private _defaultPolicy: Config.CachePolicy;
+        private _storage: Config.CacheStorage;
+
+        constructor(options?: Config.CacheOptions) {
+            this._defaultPolicy = options ? _.extend({ ttlMs: 60000, staleWhileRevalidate: false }, _.omit(options, 'storage')) : { ttlMs: 0 };
+            this._storage = createStorage(options ? options.storage : null);
+        }
+
+        // Returns null when the query should not use the cache at all.
+        public resolvePolicy(policy: Config.CachePolicy|boolean): Config.CachePolicy {
+            if (policy === false) {
+                return null;
+            }
+
+            var resolved: Config.CachePolicy = _.extend({}, this._defaultPolicy, _.isObject(policy) ? policy : {});
+
+            return resolved.ttlMs > 0 ? resolved : null;
+        }
+
+        public get(key: string): CacheEntry {
+            var serialized = this._storage.get(key);
+
+            if (serialized == null) {
+                return null;
+            }
+
+            try {
+                return JSON.parse(serialized);
+            } catch(e) {
+                this._storage.remove(key);
+                return null;
+            }
+        }
+
+        public set(key: string, response: any) {
+            var entry: CacheEntry = {
+                response: response,
+                storedAt: Date.now()
+            };
+
+            this._storage.set(key, JSON.stringify(entry));
+        }
+
+        public isFresh(entry: CacheEntry, policy: Config.CachePolicy): boolean {
+            return Date.now() - entry.storedAt < policy.ttlMs;
+        }
+    }
+}
+
+export = Cache;
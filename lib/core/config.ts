@@ -1,9 +1,73 @@
+import Transport = require('./transports/transport');
+import Middleware = require('./middleware');
+
 module Config {
 	export interface ConnectConfig {
 		baseUrl?: string;
 		projectId: string;
-		apiKey: string;
+		apiKey?: string;
+		pushKey?: string;
+		readKey?: string;
+		retry?: RetryOptions;
+		offlineQueue?: OfflineQueueOptions;
+		batching?: BatchingOptions;
+		cache?: CacheOptions;
+		scheduler?: SchedulerOptions;
+		transport?: Transport.Transport;
+		middleware?: Middleware.Middleware[];
+		backend?: string;
+	}
+
+	export interface RetryPolicy {
+		maxAttempts?: number;
+		initialDelayMs?: number;
+		maxDelayMs?: number;
+		backoffFactor?: number;
+		jitter?: boolean;
+		retryableStatuses?: Array<number|string>;
+		respectRetryAfter?: boolean;
+	}
+
+	export interface RetryOptions extends RetryPolicy {
+		push?: RetryPolicy;
+		query?: RetryPolicy;
+	}
+
+	export interface OfflineQueueStorage {
+		load(): any[];
+		save(events: any[]): void;
+	}
+
+	export interface OfflineQueueOptions {
+		storage?: string|OfflineQueueStorage;
+		storageKey?: string;
+		maxEvents?: number;
+	}
+
+	export interface BatchingOptions {
+		maxBatchSize?: number;
+		flushIntervalMs?: number;
+		useBeacon?: boolean;
+	}
+
+	export interface CachePolicy {
+		ttlMs?: number;
+		staleWhileRevalidate?: boolean;
+	}
+
+	export interface CacheStorage {
+		get(key: string): string;
+		set(key: string, value: string): void;
+		remove(key: string): void;
+	}
+
+	export interface CacheOptions extends CachePolicy {
+		storage?: string|CacheStorage;
+	}
+
+	export interface SchedulerOptions {
+		maxConcurrent?: number;
 	}
 }
 
-export = Config;
\ No newline at end of file
+export = Config;
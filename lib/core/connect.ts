@@ -1,17 +1,72 @@
 import Api = require('./api');
 import Queries = require('./queries/queries');
 import Config = require('./config');
+import OfflineQueue = require('./offline-queue');
+import Batcher = require('./batcher');
+import SuperagentTransport = require('./transports/superagent');
+import FetchTransport = require('./transports/fetch');
+import MemoryTransport = require('./transports/memory');
+import Errors = require('./errors');
+import Filters = require('./queries/filters');
+import Timeframes = require('./timeframes');
+import Comparison = require('./queries/comparison');
+import Funnel = require('./queries/funnel');
+import Scheduler = require('./scheduler');
+import Instrumentation = require('./instrumentation');
+import Q = require('q');
 import _ = require('underscore');
 
 class Connect {
     static QueryResults = Api.QueryResults;
+    static ComparisonResults = Comparison.ComparisonResults;
+    static FunnelResults = Funnel.FunnelResults;
+    static SuperagentTransport = SuperagentTransport;
+    static FetchTransport = FetchTransport;
+    static MemoryTransport = MemoryTransport;
+    static ConnectError = Errors.ConnectError;
+    static ConnectNetworkError = Errors.ConnectNetworkError;
+    static ConnectAuthError = Errors.ConnectAuthError;
+    static ConnectQueryError = Errors.ConnectQueryError;
+    static ConnectRateLimitError = Errors.ConnectRateLimitError;
+    static ConnectNotFoundError = Errors.ConnectNotFoundError;
+    static ConnectServerError = Errors.ConnectServerError;
+    static ConnectAbortError = Errors.ConnectAbortError;
+    static ConnectTimeoutError = Errors.ConnectTimeoutError;
+    static or = Filters.or;
+    static and = Filters.and;
+    static not = Filters.not;
+    static timeframes = Timeframes;
+
+    static queryFromJSON(client: Connect|Api.Client, json: string|Queries.QueryDefinition): Queries.ConnectQuery {
+        return Queries.fromJSON(Connect._resolveClient(client), json);
+    }
+
+    static queryFromUrlSafeString(client: Connect|Api.Client, encoded: string): Queries.ConnectQuery {
+        return Queries.fromUrlSafeString(Connect._resolveClient(client), encoded);
+    }
+
+    private static _resolveClient(client: Connect|Api.Client): Api.Client {
+        return client instanceof Connect ? (<Connect>client)._client : <Api.Client>client;
+    }
 
     private _config: Config.ConnectConfig;
     private _client: Api.Client;
+    private _offlineQueue: OfflineQueue.EventQueue;
+    private _batcher: Batcher.EventBatcher;
 
     constructor(config: Config.ConnectConfig) {
         this._config = this.getConfig(config);
         this._client = this._createClient();
+
+        if (this._config.offlineQueue) {
+            this._offlineQueue = new OfflineQueue.EventQueue(this._config.offlineQueue);
+            this._replayWhenOnline();
+        }
+
+        if (this._config.batching) {
+            this._batcher = new Batcher.EventBatcher(this._config.batching, batch => this._pushBatch(batch), batch => this._client.sendBeacon(batch));
+            this._flushOnPageHide();
+        }
     }
 
     public push(collectionNameOrBatches: any, eventOrEvents?: any): Q.IPromise<any> {
@@ -22,25 +77,137 @@ class Connect {
                     this._buildBatchFromArray(collectionNameOrBatches, eventOrEvents) : 
                     collectionNameOrBatches;
 
-        return isBatch ? 
-                this._client.pushBatch(batch) : 
-                this._client.push(collectionNameOrBatches, eventOrEvents);
+        if (this._batcher) {
+            return isBatch ? 
+                this._addBatchToBatcher(batch) : 
+                this._batcher.add(collectionNameOrBatches, eventOrEvents);
+        }
+
+        if (isBatch) {
+            return this._pushBatch(batch);
+        }
+
+        return this._queueOnTransientFailure(
+            this._client.push(collectionNameOrBatches, eventOrEvents), 
+            this._buildBatchFromArray(collectionNameOrBatches, [eventOrEvents]));
+    }
+
+    public flush(): Q.IPromise<any> {
+        return this._batcher ? this._batcher.flush() : Q(null);
+    }
+
+    public pendingEvents(): number {
+        return this._offlineQueue ? this._offlineQueue.pendingCount() : 0;
+    }
+
+    public replayQueuedEvents(): Q.IPromise<number> {
+        if (!this._offlineQueue) {
+            return Q(0);
+        }
+
+        return this._offlineQueue.replay(batch => this._client.pushBatch(batch));
     }
 
     public query(collection: string): Queries.ConnectQuery {
         return new Queries.ConnectQuery(this._client, collection);
     }
 
+    public schedulerMetrics(): Scheduler.SchedulerMetrics {
+        return this._client.schedulerMetrics();
+    }
+
+    public on(event: string, handler: Instrumentation.EventHandler): () => void {
+        return this._client.on(event, handler);
+    }
+
+    public off(event: string, handler: Instrumentation.EventHandler) {
+        this._client.off(event, handler);
+    }
+
+    public funnel(steps: Queries.ConnectQuery[], options?: Funnel.FunnelOptions): Funnel.FunnelQuery {
+        return new Funnel.FunnelQuery(steps, options);
+    }
+
     private getConfig(config: Config.ConnectConfig): Config.ConnectConfig {
         return {
             baseUrl: config.baseUrl || 'https://api.getconnect.io',
             projectId: config.projectId,
-            apiKey: config.apiKey
+            apiKey: config.apiKey,
+            pushKey: config.pushKey,
+            readKey: config.readKey,
+            middleware: config.middleware,
+            retry: config.retry,
+            offlineQueue: config.offlineQueue,
+            batching: config.batching,
+            cache: config.cache,
+            scheduler: config.scheduler,
+            transport: config.transport || (config.backend === 'memory' ? new MemoryTransport() : undefined),
+            backend: config.backend
         };  
     }
 
     private _createClient(): Api.Client {
-        return new Api.Client(this._config.baseUrl, this._config.projectId, this._config.apiKey);
+        return new Api.Client(this._config.baseUrl, this._config.projectId, this._config.apiKey, {
+            retry: this._config.retry,
+            cache: this._config.cache,
+            scheduler: this._config.scheduler,
+            transport: this._config.transport,
+            pushKey: this._config.pushKey,
+            readKey: this._config.readKey,
+            requireKeys: this._config.backend !== 'memory',
+            middleware: this._config.middleware
+        });
+    }
+
+    private _pushBatch(batch: any): Q.IPromise<any> {
+        return this._queueOnTransientFailure(this._client.pushBatch(batch), batch);
+    }
+
+    private _queueOnTransientFailure(pushPromise: Q.IPromise<any>, batch: any): Q.IPromise<any> {
+        if (!this._offlineQueue) {
+            return pushPromise;
+        }
+
+        return pushPromise.then(null, error => {
+            if (!OfflineQueue.isTransientError(error)) {
+                return Q.reject(error);
+            }
+
+            this._offlineQueue.enqueue(batch);
+            return { queued: true };
+        });
+    }
+
+    private _addBatchToBatcher(batch: any): Q.IPromise<any> {
+        var collections = _.keys(batch),
+            collectionPromises = _.map(collections, collection => 
+                Q.all(_.map(batch[collection], event => this._batcher.add(collection, event))));
+
+        return Q.all(collectionPromises).then(results => _.object(collections, results));
+    }
+
+    private _flushOnPageHide() {
+        var flushWithBeacon = () => this._batcher.flushWithBeacon();
+
+        if (typeof document !== 'undefined' && document.addEventListener) {
+            document.addEventListener('visibilitychange', () => {
+                if (document.visibilityState === 'hidden') {
+                    flushWithBeacon();
+                }
+            });
+        }
+
+        if (typeof window !== 'undefined' && window.addEventListener) {
+            window.addEventListener('pagehide', flushWithBeacon);
+        }
+    }
+
+    private _replayWhenOnline() {
+        if (typeof window !== 'undefined' && window.addEventListener) {
+            window.addEventListener('online', () => this.replayQueuedEvents());
+        }
+
+        this.replayQueuedEvents();
     }
 
     private _buildBatchFromArray(collection: string, events: [any]){
@@ -0,0 +1,141 @@
+import _ = require('underscore');
+import Api = require('./api');
+
+module Errors {
+    export class ConnectError extends Error {
+        public name: string;
+        public message: string;
+        public stack: string;
+        public status: number|string;
+        public url: string;
+        public query: Api.Query;
+        public body: any;
+
+        constructor(message: string, status?: number|string, url?: string, query?: Api.Query, body?: any) {
+            super(message);
+            this.name = 'ConnectError';
+            this.message = message;
+            this.stack = (<any>new Error(message)).stack;
+            this.status = status;
+            this.url = url;
+            this.query = query;
+            this.body = body;
+        }
+    }
+
+    export class ConnectNetworkError extends ConnectError {
+        constructor(message: string, status?: number|string, url?: string, query?: Api.Query, body?: any) {
+            super(message, status || 'NetworkFailure', url, query, body);
+            this.name = 'ConnectNetworkError';
+        }
+    }
+
+    export class ConnectAuthError extends ConnectError {
+        constructor(message: string, status?: number|string, url?: string, query?: Api.Query, body?: any) {
+            super(message, status, url, query, body);
+            this.name = 'ConnectAuthError';
+        }
+    }
+
+    export class ConnectQueryError extends ConnectError {
+        public errors: any[];
+
+        constructor(message: string, status?: number|string, url?: string, query?: Api.Query, body?: any) {
+            super(message, status, url, query, body);
+            this.name = 'ConnectQueryError';
+            this.errors = body && _.isArray(body.errors) ? body.errors : [];
+        }
+    }
+
+    export class ConnectRateLimitError extends ConnectError {
+        public retryAfter: string;
+
+        constructor(message: string, status?: number|string, url?: string, query?: Api.Query, body?: any, retryAfter?: string) {
+            super(message, status, url, query, body);
+            this.name = 'ConnectRateLimitError';
+            this.retryAfter = retryAfter || null;
+        }
+    }
+
+    export class ConnectNotFoundError extends ConnectError {
+        constructor(message: string, status?: number|string, url?: string, query?: Api.Query, body?: any) {
+            super(message, status, url, query, body);
+            this.name = 'ConnectNotFoundError';
+        }
+    }
+
+    export class ConnectServerError extends ConnectError {
+        constructor(message: string, status?: number|string, url?: string, query?: Api.Query, body?: any) {
+            super(message, status, url, query, body);
+            this.name = 'ConnectServerError';
+        }
+    }
+
+    export class ConnectAbortError extends ConnectError {
+        constructor(message: string = 'request aborted', url?: string, query?: Api.Query) {
+            super(message, 'Aborted', url, query);
+            this.name = 'ConnectAbortError';
+        }
+    }
+
+    export class ConnectTimeoutError extends ConnectAbortError {
+        public timeoutMs: number;
+
+        constructor(timeoutMs: number, url?: string, query?: Api.Query) {
+            super('request timed out after ' + timeoutMs + 'ms', url, query);
+            this.name = 'ConnectTimeoutError';
+            this.status = 'Timeout';
+            this.timeoutMs = timeoutMs;
+        }
+    }
+
+    var networkStatuses = [408, 502, 503, 504];
+
+    export function parseMessage(body: any, text: string, fallback: string): string {
+        if (body && _.isString(body.errorMessage)) {
+            return body.errorMessage;
+        }
+
+        if (body && _.isString(body.message)) {
+            return body.message;
+        }
+
+        if (body && _.isArray(body.errors) && body.errors.length) {
+            return _.map(body.errors, (error: any) => _.isString(error) ? error : (error.description || error.message || JSON.stringify(error))).join(' ');
+        }
+
+        return text || fallback;
+    }
+
+    export function fromResponse(status: number, body: any, text: string, method: string, url: string, query?: Api.Query, retryAfter?: string): ConnectError {
+        var message = parseMessage(body, text, 'cannot ' + method + ' ' + url + ' (' + status + ')');
+
+        if (status === 400) {
+            return new ConnectQueryError(message, status, url, query, body);
+        }
+
+        if (status === 401 || status === 403) {
+            return new ConnectAuthError(message, status, url, query, body);
+        }
+
+        if (status === 404) {
+            return new ConnectNotFoundError(message, status, url, query, body);
+        }
+
+        if (status === 429) {
+            return new ConnectRateLimitError(message, status, url, query, body, retryAfter);
+        }
+
+        if (_.contains(networkStatuses, status)) {
+            return new ConnectNetworkError(message, status, url, query, body);
+        }
+
+        if (status >= 500) {
+            return new ConnectServerError(message, status, url, query, body);
+        }
+
+        return new ConnectError(message, status, url, query, body);
+    }
+}
+
+export = Errors;
@@ -0,0 +1,137 @@
+import _ = require('underscore');
+import Api = require('./api');
+import Time = require('./time');
+import Rows = require('./rows');
+
+declare var Blob: any;
+declare var URL: any;
+declare var document: any;
+declare var navigator: any;
+
+module Export {
+    export type ValueFormatter = (value: any) => string;
+
+    export interface ExportField {
+        label?: string;
+        format?: ValueFormatter;
+    }
+
+    export interface ExportOptions {
+        fields?: { [field: string]: ExportField };
+        timezone?: Api.Timezone;
+        header?: boolean;
+    }
+
+    export interface Table {
+        columns: string[];
+        rows: any[][];
+    }
+
+    export var intervalColumns = ['intervalStart', 'intervalEnd'];
+
+    export var mimeTypes = {
+        csv: 'text/csv;charset=utf-8',
+        tsv: 'text/tab-separated-values;charset=utf-8',
+        ndjson: 'application/x-ndjson;charset=utf-8'
+    };
+
+    export function toTable(results: Api.QueryResults, options?: ExportOptions): Table {
+        options = options || {};
+
+        var fields = options.fields || {},
+            timezone = options.timezone != null ? options.timezone : results.metadata.timezone,
+            groups = results.metadata.groups || [],
+            selects = results.selects(),
+            columns = (results.metadata.interval ? intervalColumns : []).concat(groups, selects);
+
+        // Format strings are d3 (numbers) or moment (dates) patterns in the viz, and core bundles neither formatter.
+        _.each(fields, (field: ExportField, column: string) => {
+            if (field && field.format != null && !_.isFunction(field.format)) {
+                throw new Error('The format of the "' + column + '" field must be a function.');
+            }
+        });
+
+        var formatValue = (column: string, value: any) => {
+            var field = fields[column];
+
+            if (_.isDate(value)) {
+                value = timezone != null ? Time.inTimezone(value, timezone).format() : value.toISOString();
+            }
+
+            return field && field.format ? field.format(value) : value;
+        };
+
+        var rows = _.map(Rows.toRows(results), row => {
+            var values = (row.interval ? [row.interval.start, row.interval.end] : []).concat(_.map(groups, group => row.groups[group]), _.map(selects, select => row.values[select]));
+
+            return _.map(values, (value, index) => formatValue(columns[index], value));
+        });
+
+        return {
+            columns: _.map(columns, column => fields[column] && fields[column].label ? fields[column].label : column),
+            rows: rows
+        };
+    }
+
+    export function toCSV(results: Api.QueryResults, options?: ExportOptions): string {
+        return toDelimited(results, ',', options);
+    }
+
+    export function toTSV(results: Api.QueryResults, options?: ExportOptions): string {
+        return toDelimited(results, '\t', options);
+    }
+
+    export function toNDJSON(results: Api.QueryResults, options?: ExportOptions): string {
+        var table = toTable(results, options);
+
+        return _.map(table.rows, row => JSON.stringify(_.object(table.columns, row)) + '\n').join('');
+    }
+
+    export function toDelimited(results: Api.QueryResults, delimiter: string, options?: ExportOptions): string {
+        var table = toTable(results, options),
+            lines = options && options.header === false ? table.rows : [table.columns].concat(table.rows);
+
+        return _.map(lines, line => _.map(line, value => escapeValue(value, delimiter)).join(delimiter) + '\r\n').join('');
+    }
+
+    export function escapeValue(value: any, delimiter: string): string {
+        if (value == null) {
+            return '';
+        }
+
+        var text = _.isString(value) ? value : _.isObject(value) ? JSON.stringify(value) : String(value);
+
+        if (text.indexOf(delimiter) >= 0 || /["\r\n]/.test(text)) {
+            return '"' + text.replace(/"/g, '""') + '"';
+        }
+
+        return text;
+    }
+
+    export function download(content: string, filename: string, mimeType: string = 'text/plain;charset=utf-8'): boolean {
+        if (typeof Blob === 'undefined' || typeof document === 'undefined') {
+            return false;
+        }
+
+        var blob = new Blob([content], { type: mimeType });
+
+        if (typeof navigator !== 'undefined' && navigator.msSaveBlob) {
+            return navigator.msSaveBlob(blob, filename);
+        }
+
+        var url = URL.createObjectURL(blob),
+            link = document.createElement('a');
+
+        link.href = url;
+        link.download = filename;
+        link.style.display = 'none';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+
+        return true;
+    }
+}
+
+export = Export;
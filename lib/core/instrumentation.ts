@@ -0,0 +1,66 @@
+import Api = require('./api');
+import Transport = require('./transports/transport');
+import _ = require('underscore');
+
+module Instrumentation {
+    export var events = ['query:start', 'query:success', 'query:error', 'push:success', 'push:error'];
+
+    export interface InstrumentationEvent {
+        collection: string;
+        collections?: string[];
+        query?: Api.Query;
+        durationMs: number;
+        status: number|string;
+        responseSize: number;
+        fromCache: boolean;
+        coalesced: boolean;
+        error?: any;
+    }
+
+    export type EventHandler = (event: InstrumentationEvent) => void;
+
+    export class EventEmitter {
+        private _handlers: { [event: string]: EventHandler[] };
+
+        constructor() {
+            this._handlers = {};
+        }
+
+        public on(event: string, handler: EventHandler): () => void {
+            if (!_.contains(events, event))
+                throw new Error('Unknown event "' + event + '", expected one of ' + events.join(', ') + '.');
+
+            this._handlers[event] = (this._handlers[event] || []).concat([handler]);
+
+            return () => this.off(event, handler);
+        }
+
+        public off(event: string, handler: EventHandler) {
+            this._handlers[event] = _.without(this._handlers[event] || [], handler);
+        }
+
+        public emit(event: string, payload: InstrumentationEvent) {
+            _.each(this._handlers[event] || [], handler => {
+                try {
+                    handler(payload);
+                } catch(e) {
+                    setTimeout(() => { throw e; }, 0);
+                }
+            });
+        }
+    }
+
+    export function responseSize(response: Transport.TransportResponse): number {
+        if (!response) {
+            return null;
+        }
+
+        if (_.isString(response.text)) {
+            return response.text.length;
+        }
+
+        return response.body != null ? JSON.stringify(response.body).length : 0;
+    }
+}
+
+export = Instrumentation;
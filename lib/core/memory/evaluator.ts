@@ -0,0 +1,177 @@
+import _ = require('underscore');
+import Api = require('../api');
+import Time = require('../time');
+
+module Evaluator {
+    export type Operator = (actual: any, expected: any) => boolean;
+    export type Aggregation = (values: any[], events: any[]) => number;
+
+    export var operators: { [name: string]: Operator } = {
+        eq: (actual, expected) => _.isEqual(actual, expected),
+        ne: (actual, expected) => !_.isEqual(actual, expected),
+        gt: (actual, expected) => actual != null && actual > expected,
+        gte: (actual, expected) => actual != null && actual >= expected,
+        lt: (actual, expected) => actual != null && actual < expected,
+        lte: (actual, expected) => actual != null && actual <= expected,
+        exists: (actual, expected) => (actual != null) === !!expected,
+        startsWith: (actual, expected) => _.isString(actual) && actual.indexOf(expected) === 0,
+        endsWith: (actual, expected) => _.isString(actual) && actual.length >= expected.length && actual.indexOf(expected, actual.length - expected.length) >= 0,
+        contains: (actual, expected) => (_.isString(actual) || _.isArray(actual)) && actual.indexOf(expected) >= 0,
+        in: (actual, expected) => _.some(expected, value => _.isEqual(value, actual))
+    };
+
+    export var aggregations: { [name: string]: Aggregation } = {
+        count: (values, events) => events.length,
+        sum: values => _.reduce<number, number>(numbers(values), (total, value) => total + value, 0),
+        avg: values => {
+            var numeric = numbers(values);
+            return numeric.length ? aggregations['sum'](numeric, null) / numeric.length : null;
+        },
+        min: values => {
+            var numeric = numbers(values);
+            return numeric.length ? _.min(numeric) : null;
+        },
+        max: values => {
+            var numeric = numbers(values);
+            return numeric.length ? _.max(numeric) : null;
+        }
+    };
+
+    function numbers(values: any[]): number[] {
+        return _.filter(values, value => _.isNumber(value) && !isNaN(value));
+    }
+
+    export function getValue(event: any, field: string): any {
+        return _.reduce(field.split('.'), (value: any, property: string) => value != null ? value[property] : undefined, event);
+    }
+
+    export function evaluate(events: any[], query: Api.Query, now: Date = new Date()): Api.QueryResponse {
+        var timezone = query.timezone != null ? query.timezone : 0,
+            groups = query.groupBy || [],
+            selects = parseSelects(query.select || {}),
+            timeframe = Time.resolveTimeframe(query.timeframe, timezone, now),
+            matchingEvents = _.filter(events, event => matchesFilters(event, query.filter) && isInTimeframe(event, timeframe)),
+            metadata: Api.Metadata = {
+                groups: groups,
+                interval: query.interval || null,
+                timezone: query.timezone != null ? query.timezone : null
+            };
+
+        if (!query.interval) {
+            return {
+                metadata: metadata,
+                results: aggregateGroups(matchingEvents, selects, groups)
+            };
+        }
+
+        if (!Time.isInterval(query.interval)) {
+            throw new Error('Unknown interval "' + query.interval + '".');
+        }
+
+        var buckets = _.groupBy(matchingEvents, event => Time.startOfInterval(Time.inTimezone(event.timestamp, timezone), query.interval).valueOf()),
+            bucketStarts = _.sortBy(_.map(_.keys(buckets), key => Number(key)), start => start);
+
+        return {
+            metadata: metadata,
+            results: _.map(bucketStarts, start => {
+                var bucketStart = Time.inTimezone(new Date(start), timezone);
+
+                return <Api.QueryResultItem>{
+                    interval: {
+                        start: bucketStart.toISOString(),
+                        end: Time.addInterval(bucketStart, query.interval).toISOString()
+                    },
+                    results: aggregateGroups(buckets[start], selects, groups)
+                };
+            })
+        };
+    }
+
+    interface ParsedSelect {
+        alias: string;
+        aggregation: string;
+        field: string;
+    }
+
+    function parseSelects(selects: Api.QuerySelects): ParsedSelect[] {
+        return _.map(_.keys(selects), alias => {
+            var select = selects[alias],
+                aggregation = _.isString(select) ? <string>select : _.keys(select)[0],
+                field = _.isString(select) ? null : select[aggregation];
+
+            if (!_.has(aggregations, aggregation)) {
+                throw new Error('Unknown aggregation "' + aggregation + '" for select "' + alias + '".');
+            }
+
+            return { alias: alias, aggregation: aggregation, field: field };
+        });
+    }
+
+    function matchesFilters(event: any, filters: Api.QueryFilters): boolean {
+        return _.every(_.keys(filters || {}), field => {
+            if (field === '$or') {
+                return _.some(<Api.QueryFilters[]>filters[field], operand => matchesFilters(event, operand));
+            }
+
+            if (field === '$and') {
+                return _.every(<Api.QueryFilters[]>filters[field], operand => matchesFilters(event, operand));
+            }
+
+            if (field === '$not') {
+                return !matchesFilters(event, filters[field]);
+            }
+
+            var fieldFilters = filters[field],
+                actual = getValue(event, field);
+
+            return _.every(_.keys(fieldFilters), operatorName => {
+                var operator = operators[operatorName];
+
+                if (!operator) {
+                    throw new Error('Unknown filter operator "' + operatorName + '" for field "' + field + '".');
+                }
+
+                return operator(actual, fieldFilters[operatorName]);
+            });
+        });
+    }
+
+    function isInTimeframe(event: any, timeframe: Time.DateRange): boolean {
+        if (!timeframe) {
+            return true;
+        }
+
+        var timestamp = new Date(event.timestamp).getTime();
+
+        return (!timeframe.start || timestamp >= timeframe.start.getTime()) &&
+            (!timeframe.end || timestamp < timeframe.end.getTime());
+    }
+
+    function aggregateGroups(events: any[], selects: ParsedSelect[], groups: string[]): Api.QueryResultItem[] {
+        if (!groups.length) {
+            return [aggregate(events, selects, {})];
+        }
+
+        var grouped = _.groupBy(events, event => JSON.stringify(_.map(groups, group => getValue(event, group))));
+
+        return _.map(_.keys(grouped), key => {
+            var groupValues = _.object(groups, JSON.parse(key));
+
+            return aggregate(grouped[key], selects, groupValues);
+        });
+    }
+
+    function aggregate(events: any[], selects: ParsedSelect[], groupValues: any): Api.QueryResultItem {
+        var result: Api.QueryResultItem = _.clone(groupValues);
+
+        _.each(selects, select => {
+            var values = select.field ? _.map(events, event => getValue(event, select.field)) : [];
+
+            result[select.alias] = aggregations[select.aggregation](values, events);
+        });
+
+        return result;
+    }
+}
+
+export = Evaluator;
@@ -0,0 +1,38 @@
+import _ = require('underscore');
+
+class EventStore {
+    private _collections: { [collection: string]: any[] };
+
+    constructor() {
+        this._collections = {};
+    }
+
+    public push(collection: string, event: any) {
+        var storedEvent = JSON.parse(JSON.stringify(event || {}));
+
+        if (storedEvent.timestamp == null) {
+            storedEvent.timestamp = new Date().toISOString();
+        }
+
+        (this._collections[collection] = this._collections[collection] || []).push(storedEvent);
+    }
+
+    public events(collection: string): any[] {
+        return this._collections[collection] || [];
+    }
+
+    public collections(): string[] {
+        return _.keys(this._collections);
+    }
+
+    public clear(collection?: string) {
+        if (collection) {
+            delete this._collections[collection];
+            return;
+        }
+
+        this._collections = {};
+    }
+}
+
+export = EventStore;
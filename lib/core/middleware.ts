@@ -0,0 +1,67 @@
+import Q = require('q');
+import Api = require('./api');
+import Transport = require('./transports/transport');
+
+module Middleware {
+    export interface RequestContext {
+        method: string;
+        url: string;
+        headers: Transport.Headers;
+        body?: any;
+        collection?: string;
+        query?: Api.Query;
+        attempt: number;
+    }
+
+    export interface ResponseContext extends RequestContext {
+        response: Transport.TransportResponse;
+    }
+
+    export interface ErrorContext extends RequestContext {
+        error: any;
+        response?: Transport.TransportResponse;
+    }
+
+    export type Hook<TContext> = (context: TContext) => void|Q.IPromise<any>;
+
+    export interface Middleware {
+        onRequest?: Hook<RequestContext>;
+        onResponse?: Hook<ResponseContext>;
+        onError?: Hook<ErrorContext>;
+    }
+
+    export function run(middleware: Middleware[], hook: string, context: RequestContext, next: () => void, fail: (error: any) => void) {
+        var index = 0;
+
+        var runNext = () => {
+            while (index < middleware.length) {
+                var current = middleware[index++],
+                    handler: Hook<RequestContext> = current[hook];
+
+                if (!handler) {
+                    continue;
+                }
+
+                var result: any;
+
+                try {
+                    result = handler.call(current, context);
+                } catch(e) {
+                    fail(e);
+                    return;
+                }
+
+                if (result && typeof result.then === 'function') {
+                    Q(result).then(runNext, fail).then(null, fail);
+                    return;
+                }
+            }
+
+            next();
+        };
+
+        runNext();
+    }
+}
+
+export = Middleware;
@@ -0,0 +1,164 @@
+import Q = require('q');
+import _ = require('underscore');
+import Config = require('./config');
+
+module OfflineQueue {
+    export interface QueuedEvent {
+        id: string;
+        collection: string;
+        event: any;
+        queuedAt: number;
+    }
+
+    export class MemoryStorage implements Config.OfflineQueueStorage {
+        private _events: QueuedEvent[] = [];
+
+        public load(): QueuedEvent[] {
+            return this._events.slice();
+        }
+
+        public save(events: QueuedEvent[]) {
+            this._events = events.slice();
+        }
+    }
+
+    export class LocalStorageStorage implements Config.OfflineQueueStorage {
+        private _key: string;
+
+        constructor(key: string) {
+            this._key = key;
+        }
+
+        public load(): QueuedEvent[] {
+            try {
+                return JSON.parse(localStorage.getItem(this._key)) || [];
+            } catch(e) {
+                return [];
+            }
+        }
+
+        public save(events: QueuedEvent[]) {
+            try {
+                localStorage.setItem(this._key, JSON.stringify(events));
+            } catch(e) {
+                // Storage is full or unavailable (e.g. private browsing), the events stay lost as before.
+            }
+        }
+    }
+
+    export function isLocalStorageAvailable(): boolean {
+        try {
+            return typeof localStorage !== 'undefined' && localStorage != null;
+        } catch(e) {
+            return false;
+        }
+    }
+
+    export function createStorage(options: Config.OfflineQueueOptions): Config.OfflineQueueStorage {
+        var storage = options.storage || 'localStorage';
+
+        if (!_.isString(storage)) {
+            return <Config.OfflineQueueStorage>storage;
+        }
+
+        if (storage === 'localStorage' && isLocalStorageAvailable()) {
+            return new LocalStorageStorage(options.storageKey);
+        }
+
+        return new MemoryStorage();
+    }
+
+    export function isTransientError(error: any): boolean {
+        if (error == null) {
+            return false;
+        }
+
+        var status = error.status;
+
+        return status === 'NetworkFailure' || status === 408 || status === 429 || (_.isNumber(status) && status >= 500);
+    }
+
+    export class EventQueue {
+        private _storage: Config.OfflineQueueStorage;
+        private _maxEvents: number;
+        private _nextId: number;
+        private _replaying: Q.IPromise<number>;
+
+        constructor(options: Config.OfflineQueueOptions) {
+            options = _.extend({ storageKey: 'connect-offline-queue', maxEvents: 1000 }, options);
+
+            this._storage = createStorage(options);
+            this._maxEvents = options.maxEvents;
+            this._nextId = 0;
+            this._replaying = null;
+        }
+
+        public enqueue(batch: any) {
+            var events = this._storage.load(),
+                now = Date.now();
+
+            _.each(batch, (collectionEvents: any[], collection: string) => {
+                _.each(collectionEvents, event => {
+                    events.push(<QueuedEvent>{
+                        id: now + '-' + (this._nextId++),
+                        collection: collection,
+                        event: event,
+                        queuedAt: now
+                    });
+                });
+            });
+
+            if (events.length > this._maxEvents) {
+                events.splice(0, events.length - this._maxEvents);
+            }
+
+            this._storage.save(events);
+        }
+
+        public pendingCount(): number {
+            return this._storage.load().length;
+        }
+
+        public replay(pushBatch: (batch: any) => Q.IPromise<any>): Q.IPromise<number> {
+            if (this._replaying) {
+                return this._replaying;
+            }
+
+            var events = this._storage.load();
+
+            if (!events.length) {
+                return Q(0);
+            }
+
+            var batch = _.reduce(events, (memo, queued: QueuedEvent) => {
+                (memo[queued.collection] = memo[queued.collection] || []).push(queued.event);
+                return memo;
+            }, {});
+
+            var finish = () => {
+                this._remove(_.pluck(events, 'id'));
+                this._replaying = null;
+                return events.length;
+            };
+
+            this._replaying = pushBatch(batch).then(finish, error => {
+                if (!isTransientError(error)) {
+                    return finish();
+                }
+
+                this._replaying = null;
+                return 0;
+            });
+
+            return this._replaying;
+        }
+
+        private _remove(ids: string[]) {
+            var remaining = _.reject(this._storage.load(), (queued: QueuedEvent) => _.contains(ids, queued.id));
+
+            this._storage.save(remaining);
+        }
+    }
+}
+
+export = OfflineQueue;
@@ -0,0 +1,179 @@
+import Api = require('../api');
+import Queries = require('./queries');
+import Timeframes = require('../timeframes');
+import Time = require('../time');
+import Q = require('q');
+import _ = require('underscore');
+
+module Comparison {
+	export interface SelectComparison {
+		current: number;
+		previous: number;
+		delta: number;
+		percentChange: number;
+	}
+
+	export interface ComparisonItem {
+		groups: { [group: string]: any };
+		interval?: Api.QueryResultInterval;
+		previousInterval?: Api.QueryResultInterval;
+		values: { [select: string]: SelectComparison };
+	}
+
+	export class ComparisonResults extends Api.QueryResults {
+		public previous: Api.QueryResults;
+		public comparisons: ComparisonItem[];
+		private _currentStart: Date;
+		private _previousStart: Date;
+
+		constructor(current: Api.QueryResults, previous: Api.QueryResults, currentStart?: Date, previousStart?: Date) {
+			super({ metadata: current.metadata, results: current.results });
+
+			this.previous = previous;
+			this.comparisons = compare(current, previous, currentStart, previousStart);
+			this._currentStart = currentStart;
+			this._previousStart = previousStart;
+		}
+
+		public clone(): ComparisonResults {
+			return new ComparisonResults(super.clone(), this.previous.clone(), this._currentStart, this._previousStart);
+		}
+	}
+
+	export class ComparisonQuery {
+		_query: Queries.ConnectQuery;
+		_comparison: string|Api.Timeframe;
+		_runningQueries: Queries.ConnectQuery[];
+
+		constructor(query: Queries.ConnectQuery, comparison: string|Api.Timeframe) {
+			this._query = query;
+			this._comparison = comparison;
+			this._runningQueries = [];
+		}
+
+		public execute(): Q.IPromise<ComparisonResults> {
+			var now = new Date(),
+				timezone = this._query._timezone,
+				previousTimeframe = this._previousTimeframe(now),
+				previousQuery = this._query.timeframe(previousTimeframe),
+				currentStart = this._resolveStart(this._query._timeframe, timezone, now),
+				previousStart = this._resolveStart(previousTimeframe, timezone, now);
+
+			this._runningQueries = [this._query, previousQuery];
+
+			return Q.all([this._query.execute(), previousQuery.execute()])
+				.then(results => new ComparisonResults(results[0], results[1], currentStart, previousStart));
+		}
+
+		public abort() {
+			_.each(this._runningQueries, query => query.abort());
+			this._runningQueries = [];
+		}
+
+		private _previousTimeframe(now: Date): Api.Timeframe {
+			var timeframe = this._query._timeframe,
+				timezone = this._query._timezone;
+
+			if (this._comparison === 'previous_period') {
+				return Timeframes.previousPeriod(timeframe, timezone, now);
+			}
+
+			if (this._comparison === 'previous_year') {
+				return Timeframes.samePeriodLastYear(timeframe, timezone, now);
+			}
+
+			return <Api.Timeframe>this._comparison;
+		}
+
+		private _resolveStart(timeframe: Api.Timeframe, timezone: Api.Timezone, now: Date): Date {
+			try {
+				var range = Timeframes.resolve(timeframe, timezone, now);
+
+				return range ? range.start : null;
+			} catch(e) {
+				return null;
+			}
+		}
+	}
+
+	export function compare(current: Api.QueryResults, previous: Api.QueryResults, currentStart?: Date, previousStart?: Date): ComparisonItem[] {
+		var groups = current.metadata.groups || [],
+			selects = _.union(current.selects(), previous.selects());
+
+		if (!current.metadata.interval) {
+			return compareGroups(current.results, previous.results, groups, selects, null, null);
+		}
+
+		var currentByOffset = indexByOffset(current, currentStart),
+			previousByOffset = indexByOffset(previous, previousStart),
+			offsets = _.sortBy(_.union(_.keys(currentByOffset), _.keys(previousByOffset)), offset => Number(offset));
+
+		return _.flatten(_.map(offsets, offset => {
+			var currentInterval = currentByOffset[offset],
+				previousInterval = previousByOffset[offset];
+
+			return compareGroups(
+				currentInterval ? currentInterval.results : [],
+				previousInterval ? previousInterval.results : [],
+				groups,
+				selects,
+				currentInterval ? currentInterval.interval : null,
+				previousInterval ? previousInterval.interval : null);
+		}), true);
+	}
+
+	// Buckets without events are left out of the results, so intervals are paired by how many
+	// intervals they are from the start of their timeframe rather than by their position.
+	function indexByOffset(results: Api.QueryResults, start: Date): { [offset: string]: Api.QueryResultItem } {
+		var unit = Time.intervalUnits[results.metadata.interval],
+			timezone = results.metadata.timezone,
+			intervalStart = (result: Api.QueryResultItem) => Time.inTimezone(<any>result.interval.start, timezone),
+			first = start || (results.results.length ? new Date(_.min(_.map(results.results, result => new Date(<any>result.interval.start).getTime()))) : null),
+			origin = first ? Time.startOf(Time.inTimezone(first, timezone), unit) : null;
+
+		return _.indexBy(results.results, result => String(Math.round(intervalStart(result).diff(origin, unit, true))));
+	}
+
+	function compareGroups(currentResults: Api.QueryResultItem[], previousResults: Api.QueryResultItem[], groups: string[], selects: string[], interval: Api.QueryResultInterval, previousInterval: Api.QueryResultInterval): ComparisonItem[] {
+		var groupKey = (result: Api.QueryResultItem) => JSON.stringify(_.map(groups, group => result[group])),
+			currentByGroup = _.indexBy(currentResults, groupKey),
+			previousByGroup = _.indexBy(previousResults, groupKey),
+			keys = _.union(_.map(currentResults, groupKey), _.map(previousResults, groupKey));
+
+		return _.map(keys, key => {
+			var currentResult = currentByGroup[key],
+				previousResult = previousByGroup[key],
+				item: ComparisonItem = {
+					groups: _.object(groups, JSON.parse(key)),
+					values: {}
+				};
+
+			if (interval || previousInterval) {
+				item.interval = interval;
+				item.previousInterval = previousInterval;
+			}
+
+			_.each(selects, select => {
+				item.values[select] = compareValues(
+					currentResult ? currentResult[select] : null,
+					previousResult ? previousResult[select] : null);
+			});
+
+			return item;
+		});
+	}
+
+	function compareValues(current: number, previous: number): SelectComparison {
+		var hasBoth = _.isNumber(current) && _.isNumber(previous),
+			delta = hasBoth ? current - previous : null;
+
+		return {
+			current: current != null ? current : null,
+			previous: previous != null ? previous : null,
+			delta: delta,
+			percentChange: hasBoth && previous !== 0 ? delta / previous * 100 : null
+		};
+	}
+}
+
+export = Comparison;
@@ -0,0 +1,161 @@
+import Api = require('../api');
+import _ = require('underscore');
+
+module Computed {
+	export type ComputeFunction = (row: any) => any;
+
+	export interface ComputedSelect {
+		name: string;
+		compute: ComputeFunction;
+		expression?: string;
+	}
+
+	export function create(name: string, expression: string|ComputeFunction): ComputedSelect {
+		if (_.isFunction(expression)) {
+			return { name: name, compute: <ComputeFunction>expression };
+		}
+
+		if (!_.isString(expression)) {
+			throw new Error('A computed select requires a function or an expression.');
+		}
+
+		return { name: name, compute: compile(<string>expression), expression: <string>expression };
+	}
+
+	export function apply(results: Api.QueryResults, computed: ComputedSelect[]): Api.QueryResults {
+		var rows = results.metadata.interval ? _.flatten(_.map(results.results, result => result.results), true) : results.results;
+
+		_.each(rows, (row: Api.QueryResultItem) => {
+			_.each(computed, select => {
+				var value = select.compute(row);
+
+				row[select.name] = _.isNumber(value) && !isFinite(value) ? null : value;
+			});
+		});
+
+		return results;
+	}
+
+	interface Token {
+		type: string;
+		value: any;
+	}
+
+	type Node = (row: any) => number;
+
+	var binaryOperators: { [operator: string]: (left: number, right: number) => number } = {
+		'+': (left, right) => left + right,
+		'-': (left, right) => left - right,
+		'*': (left, right) => left * right,
+		'/': (left, right) => right === 0 ? null : left / right
+	};
+
+	export function compile(expression: string): ComputeFunction {
+		var tokens = tokenize(expression),
+			position = 0;
+
+		var peek = () => tokens[position],
+			next = () => tokens[position++];
+
+		var expect = (value: string) => {
+			var token = next();
+
+			if (!token || token.value !== value) {
+				throw new Error('Expected "' + value + '" in expression "' + expression + '".');
+			}
+		};
+
+		var binary = (operand: () => Node, operators: string[]) => () => {
+			var left = operand();
+
+			while (peek() && peek().type === 'operator' && _.contains(operators, peek().value)) {
+				left = combine(left, binaryOperators[next().value], operand());
+			}
+
+			return left;
+		};
+
+		var primary = (): Node => {
+			var token = next();
+
+			if (!token) {
+				throw new Error('Unexpected end of expression "' + expression + '".');
+			}
+
+			if (token.type === 'number') {
+				return () => token.value;
+			}
+
+			if (token.type === 'identifier') {
+				return row => _.isNumber(row[token.value]) ? row[token.value] : null;
+			}
+
+			if (token.value === '-') {
+				var operand = primary();
+
+				return row => {
+					var value = operand(row);
+					return value == null ? null : -value;
+				};
+			}
+
+			if (token.value === '(') {
+				var inner = additive();
+
+				expect(')');
+				return inner;
+			}
+
+			throw new Error('Unexpected "' + token.value + '" in expression "' + expression + '".');
+		};
+
+		var multiplicative = binary(primary, ['*', '/']),
+			additive = binary(multiplicative, ['+', '-']),
+			root = additive();
+
+		if (position < tokens.length) {
+			throw new Error('Unexpected "' + peek().value + '" in expression "' + expression + '".');
+		}
+
+		return root;
+	}
+
+	function combine(left: Node, operator: (left: number, right: number) => number, right: Node): Node {
+		return row => {
+			var leftValue = left(row),
+				rightValue = right(row);
+
+			return leftValue == null || rightValue == null ? null : operator(leftValue, rightValue);
+		};
+	}
+
+	function tokenize(expression: string): Token[] {
+		var pattern = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_$][\w$]*)|([-+*\/()]))/g,
+			tokens: Token[] = [],
+			position = 0,
+			match: RegExpExecArray;
+
+		while (position < expression.length && /\S/.test(expression.substring(position))) {
+			pattern.lastIndex = position;
+			match = pattern.exec(expression);
+
+			if (!match || match.index !== position) {
+				throw new Error('Invalid expression "' + expression + '".');
+			}
+
+			if (match[1]) {
+				tokens.push({ type: 'number', value: Number(match[1]) });
+			} else if (match[2]) {
+				tokens.push({ type: 'identifier', value: match[2] });
+			} else {
+				tokens.push({ type: 'operator', value: match[3] });
+			}
+
+			position = pattern.lastIndex;
+		}
+
+		return tokens;
+	}
+}
+
+export = Computed;
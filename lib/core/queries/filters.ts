@@ -14,6 +14,57 @@ module Filters {
 		}
 	}
 
+	export class CompositeFilter {
+		combinator: string;
+		operands: Filter[][];
+
+		constructor(combinator: string, operands: Filter[][]) {
+			this.combinator = combinator;
+			this.operands = operands;
+		}
+	}
+
+	export type Filter = QueryFilter|CompositeFilter;
+
+	export function or(...filterSpecifications: any[]): CompositeFilter {
+		return new CompositeFilter('or', _.map(filterSpecifications, parseFilterSpecification));
+	}
+
+	export function and(...filterSpecifications: any[]): CompositeFilter {
+		return new CompositeFilter('and', _.map(filterSpecifications, parseFilterSpecification));
+	}
+
+	export function not(filterSpecification: any): CompositeFilter {
+		return new CompositeFilter('not', [parseFilterSpecification(filterSpecification)]);
+	}
+
+	function parseFilterSpecification(filterSpecification: any): Filter[] {
+		if (filterSpecification instanceof CompositeFilter) {
+			return [filterSpecification];
+		}
+
+		return _.chain(filterSpecification)
+			.map(queryFilterBuilder)
+			.flatten()
+			.value();
+	}
+
+	export function fromQueryFilters(queryFilters: Api.QueryFilters): Filter[] {
+		return _.flatten(_.map(_.keys(queryFilters || {}), field => {
+			var value: any = queryFilters[field];
+
+			if (field === '$or' || field === '$and') {
+				return [new CompositeFilter(field.substring(1), _.map(value, fromQueryFilters))];
+			}
+
+			if (field === '$not') {
+				return [new CompositeFilter('not', [fromQueryFilters(value)])];
+			}
+
+			return _.map(_.keys(value), operator => new QueryFilter(field, operator, value[operator]));
+		}), true);
+	}
+
 	export function queryFilterBuilder(filterValue: any, field: string) : QueryFilter[]{
 		if (!_.isObject(filterValue)){
 			return [new QueryFilter(field, "eq", filterValue)];
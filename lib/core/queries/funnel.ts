@@ -0,0 +1,155 @@
+import Api = require('../api');
+import Queries = require('./queries');
+import Q = require('q');
+import _ = require('underscore');
+
+module Funnel {
+	export interface FunnelOptions {
+		timeframe?: Api.Timeframe;
+		timezone?: Api.Timezone;
+		groupBy?: string;
+	}
+
+	export interface FunnelStep {
+		name: string;
+		count: number;
+		conversionRate: number;
+		overallConversionRate: number;
+		dropOff: number;
+		dropOffRate: number;
+	}
+
+	export interface FunnelGroup {
+		groups: { [group: string]: any };
+		steps: FunnelStep[];
+		overallConversionRate: number;
+	}
+
+	export class FunnelResults {
+		public steps: FunnelStep[];
+		public overallConversionRate: number;
+		public groups: FunnelGroup[];
+
+		constructor(names: string[], stepResults: Api.QueryResults[], countSelects: string[], groupBy?: string) {
+			var countsByGroup = _.map(stepResults, (results, index) => countGroups(results, countSelects[index], groupBy));
+
+			this.steps = buildSteps(names, _.map(countsByGroup, counts => _.reduce<number, number>(_.values(counts), (total, count) => total + count, 0)));
+			this.overallConversionRate = _.last(this.steps).overallConversionRate;
+			this.groups = groupBy ? buildGroups(names, countsByGroup, groupBy) : [];
+		}
+	}
+
+	export class FunnelQuery {
+		_steps: Queries.ConnectQuery[];
+		_options: FunnelOptions;
+		_runningQueries: Queries.ConnectQuery[];
+
+		constructor(steps: Queries.ConnectQuery[], options?: FunnelOptions) {
+			if (!steps || steps.length < 2) {
+				throw new Error('A funnel requires at least two steps.');
+			}
+
+			this._options = options || {};
+			this._steps = _.map(steps, step => this._prepareStep(step));
+			this._runningQueries = [];
+		}
+
+		public execute(): Q.IPromise<FunnelResults> {
+			var names = _.map(this._steps, step => step.collection()),
+				countSelects = _.map(this._steps, countSelect);
+
+			this._runningQueries = this._steps.slice();
+
+			return Q.all(_.map(this._steps, step => step.execute()))
+				.then(results => new FunnelResults(names, results, countSelects, this._options.groupBy));
+		}
+
+		public abort() {
+			_.each(this._runningQueries, query => query.abort());
+			this._runningQueries = [];
+		}
+
+		private _prepareStep(step: Queries.ConnectQuery): Queries.ConnectQuery {
+			var groupBy = this._options.groupBy;
+
+			if (step._interval) {
+				throw new Error('Funnel steps cannot have an interval.');
+			}
+
+			if (_.isEmpty(step._selects)) {
+				step = step.select({ count: 'count' });
+			} else if (!countSelect(step)) {
+				throw new Error('Each funnel step must select a count.');
+			}
+
+			if (_.some(step._groups, group => group !== groupBy)) {
+				throw new Error('Funnel steps can only be grouped by the funnel group.');
+			}
+
+			if (groupBy && !_.contains(step._groups, groupBy)) {
+				step = step.groupBy(groupBy);
+			}
+
+			if (this._options.timeframe) {
+				step = step.timeframe(this._options.timeframe);
+			}
+
+			if (this._options.timezone != null) {
+				step = step.timezone(this._options.timezone);
+			}
+
+			return step;
+		}
+	}
+
+	function countSelect(step: Queries.ConnectQuery): string {
+		return _.find(_.keys(step._selects), alias => step._selects[alias] === 'count');
+	}
+
+	function countGroups(results: Api.QueryResults, select: string, groupBy: string): { [group: string]: number } {
+		var counts: { [group: string]: number } = {};
+
+		_.each(results.results, result => {
+			var key = JSON.stringify(groupBy ? result[groupBy] : null);
+
+			counts[key] = (counts[key] || 0) + (result[select] || 0);
+		});
+
+		return counts;
+	}
+
+	function buildSteps(names: string[], counts: number[]): FunnelStep[] {
+		return _.map(counts, (count, index) => {
+			var previous = index > 0 ? counts[index - 1] : count,
+				dropOff = previous - count;
+
+			return {
+				name: names[index],
+				count: count,
+				conversionRate: previous ? count / previous : 0,
+				overallConversionRate: counts[0] ? count / counts[0] : 0,
+				dropOff: dropOff,
+				dropOffRate: previous ? dropOff / previous : 0
+			};
+		});
+	}
+
+	function buildGroups(names: string[], countsByGroup: { [group: string]: number }[], groupBy: string): FunnelGroup[] {
+		var keys = _.union.apply(_, _.map(countsByGroup, counts => _.keys(counts)));
+
+		return _.map(keys, (key: string) => {
+			var steps = buildSteps(names, _.map(countsByGroup, counts => counts[key] || 0)),
+				groups = {};
+
+			groups[groupBy] = JSON.parse(key);
+
+			return {
+				groups: groups,
+				steps: steps,
+				overallConversionRate: _.last(steps).overallConversionRate
+			};
+		});
+	}
+}
+
+export = Funnel;
@@ -2,31 +2,91 @@ import Api = require('../api')
 import Filters = require('./filters');
 import Selects = require('./selects');
 import QueryBuilder = require('./query-builder');
+import Config = require('../config');
+import Errors = require('../errors');
+import Validation = require('./validation');
+import Serialization = require('./serialization');
+import Comparison = require('./comparison');
+import Computed = require('./computed');
+import Transforms = require('../transforms');
+import Subscription = require('./subscription');
+import Scheduler = require('../scheduler');
+import Transport = require('../transports/transport');
 import Q = require('q');
 import request = require('superagent');
 import _ = require('underscore');
 
 module Queries {
+	var otherAggregations: { [aggregation: string]: (values: number[]) => number } = {
+		count: Transforms.sum,
+		sum: Transforms.sum,
+		min: values => values.length ? _.min(values) : null,
+		max: values => values.length ? _.max(values) : null
+	};
+
+	export type ResultsTransform = (results: Api.QueryResults) => Api.QueryResults;
+
+	export interface QueryOptions extends Api.QueryOptions {
+		computed?: Computed.ComputedSelect[];
+		transforms?: ResultsTransform[];
+	}
+
+	export interface ExecuteOptions {
+		timeoutMs?: number;
+		signal?: Transport.AbortSignal;
+	}
+
+	export interface QueryDefinition extends Api.Query {
+		collection: string;
+		compute?: { [name: string]: string };
+	}
+
+	export function fromJSON(client: Api.Client, json: string|QueryDefinition): ConnectQuery {
+		var definition: QueryDefinition = _.isString(json) ? JSON.parse(<string>json) : json;
+
+		if (!definition || !_.isString(definition.collection)) {
+			throw new Error('A query definition requires a collection.');
+		}
+
+		var query = new ConnectQuery(
+			client,
+			definition.collection,
+			definition.select,
+			Filters.fromQueryFilters(definition.filter),
+			definition.groupBy,
+			definition.timeframe,
+			definition.interval,
+			definition.timezone);
+
+		return _.reduce(_.keys(definition.compute || {}), (computedQuery: ConnectQuery, name: string) => computedQuery.compute(name, definition.compute[name]), query);
+	}
+
+	export function fromUrlSafeString(client: Api.Client, encoded: string): ConnectQuery {
+		return fromJSON(client, Serialization.fromUrlSafe(encoded));
+	}
+
 	export class ConnectQuery {
 		_client: Api.Client;
 		_collection: string;
 		_selects: Selects.QuerySelects;
-		_filters: Filters.QueryFilter[];
+		_filters: Filters.Filter[];
 		_groups: string[];
 		_timeframe: Api.Timeframe;
 		_interval: string;
 		_timezone: Api.Timezone;
+		_options: QueryOptions;
 		_runningRequests: Array<Api.ClientDeferredQuery>;
 
 		constructor(
 			client: Api.Client,
 			collection: string,
 			selects?: Selects.QuerySelects,
-			filters?: Filters.QueryFilter[],
+			filters?: Filters.Filter[],
 			groups?: string[],
 			timeframe?: Api.Timeframe,
 			interval?: string,
-			timezone?: Api.Timezone) {
+			timezone?: Api.Timezone,
+			options?: QueryOptions) {
 			this._client = client;
 			this._collection = collection;
 			this._selects = selects || {};
@@ -35,6 +95,7 @@ module Queries {
 			this._timeframe = timeframe || null;
 			this._interval = interval || null;
 			this._timezone = timezone || null;
+			this._options = options || {};
 			this._runningRequests = new Array<Api.ClientDeferredQuery>();
 		}
 
@@ -50,19 +111,24 @@ module Queries {
 					throw new Error('You can only provide one aggregation function per select.');
 			}
 
-			return new ConnectQuery(this._client, this._collection, selects, this._filters, this._groups, this._timeframe, this._interval, this._timezone);
+			return new ConnectQuery(this._client, this._collection, selects, this._filters, this._groups, this._timeframe, this._interval, this._timezone, this._options);
 		}
 
 		public filter(filterSpecification: any): ConnectQuery {
-			var filters = _.chain(filterSpecification)
-				.map(Filters.queryFilterBuilder)
-				.flatten()
-				.value()
-				.concat(this._filters);
+			var filters: Filters.Filter[];
 
-			filters = _.uniq(filters, filter => filter.field + '|' + filter.operator);
+			if (filterSpecification instanceof Filters.CompositeFilter) {
+				filters = [filterSpecification];
+			} else {
+				filters = _.chain(filterSpecification)
+					.map(Filters.queryFilterBuilder)
+					.flatten()
+					.value();
+			}
+
+			filters = this._filters.concat(filters);
 
-			return new ConnectQuery(this._client, this._collection, this._selects, filters, this._groups, this._timeframe, this._interval, this._timezone);
+			return new ConnectQuery(this._client, this._collection, this._selects, filters, this._groups, this._timeframe, this._interval, this._timezone, this._options);
 		}
 
 		public groupBy(field: string|string[]) {
@@ -74,49 +140,188 @@ module Queries {
 				groups = this._groups.concat(field);
 			}
 
-			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, groups, this._timeframe, this._interval, this._timezone);
+			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, groups, this._timeframe, this._interval, this._timezone, this._options);
 		}
 
 		public timeframe(timeframe: Api.Timeframe): ConnectQuery {
 
-			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, this._groups, timeframe, this._interval, this._timezone);
+			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, this._groups, timeframe, this._interval, this._timezone, this._options);
 		}
 
 		public interval(interval: string): ConnectQuery {
-			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, this._groups, this._timeframe, interval, this._timezone);
+			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, this._groups, this._timeframe, interval, this._timezone, this._options);
 		}
 
 		public timezone(timezone: Api.Timezone): ConnectQuery {
 			if(!this._timeframe && !this._interval)
 				throw new Error('You can only set a timezone when a valid timeframe or interval has been set.');
 
-			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, this._groups, this._timeframe, this._interval, timezone);
+			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, this._groups, this._timeframe, this._interval, timezone, this._options);
+		}
+
+		public cache(policy: Config.CachePolicy|boolean): ConnectQuery {
+			var options = _.extend({}, this._options, { cache: policy });
+
+			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, this._groups, this._timeframe, this._interval, this._timezone, options);
 		}
 
-		public execute(): Q.IPromise<Api.QueryResults> {
-			var queryBuilder = new QueryBuilder(),
-				apiQuery = queryBuilder.build(this._selects, this._filters, this._groups, this._timeframe, this._interval, this._timezone);
-			var executeQuery = this._client.query(this._collection, apiQuery);
+		public compute(name: string, expression: string|Computed.ComputeFunction): ConnectQuery {
+			if(_.has(this._selects, name) || _.some(this._options.computed, select => select.name === name))
+				throw new Error('A select named "' + name + '" already exists.');
+
+			var computed = (this._options.computed || []).concat([Computed.create(name, expression)]),
+				options = _.extend({}, this._options, { computed: computed });
+
+			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, this._groups, this._timeframe, this._interval, this._timezone, options);
+		}
+
+		public sortBy(select: string, direction: string = 'asc'): ConnectQuery {
+			return this._addTransform(results => results.sortBy(select, direction));
+		}
+
+		public top(count: number, options?: Transforms.TopOptions): ConnectQuery {
+			var topOptions = _.extend({ aggregate: (values: number[], select: string) => this._aggregateOther(values, select) }, options);
+
+			return this._addTransform(results => results.top(count, topOptions));
+		}
+
+		public limit(count: number): ConnectQuery {
+			return this._addTransform(results => results.limit(count));
+		}
+
+		public filterRows(predicate: Transforms.RowPredicate): ConnectQuery {
+			return this._addTransform(results => results.filterRows(predicate));
+		}
+
+		public fillGaps(options?: Transforms.FillGapsOptions): ConnectQuery {
+			if(!this._interval)
+				throw new Error('You can only fill gaps when an interval has been set.');
+
+			return this._addTransform(results => results.fillGaps(_.extend({ timeframe: this._timeframe }, options)));
+		}
+
+		public compareTo(comparison: string|Api.Timeframe): Comparison.ComparisonQuery {
+			if(!this._timeframe)
+				throw new Error('You can only compare a query that has a timeframe.');
+
+			return new Comparison.ComparisonQuery(this, comparison);
+		}
+
+		public toJSON(): QueryDefinition {
+			var definition = <QueryDefinition>_.extend({ collection: this._collection }, this._buildQuery()),
+				expressions = _.filter(this._options.computed, select => select.expression != null);
+
+			if (expressions.length) {
+				definition.compute = <{ [name: string]: string }>_.object(_.pluck(expressions, 'name'), _.pluck(expressions, 'expression'));
+			}
+
+			return definition;
+		}
+
+		public toUrlSafeString(): string {
+			return Serialization.toUrlSafe(JSON.stringify(this));
+		}
+
+		public priority(priority: string): ConnectQuery {
+			if(!_.has(Scheduler.priorities, priority))
+				throw new Error('Unknown priority "' + priority + '", expected one of ' + _.keys(Scheduler.priorities).join(', ') + '.');
+
+			var options = _.extend({}, this._options, { priority: priority });
+
+			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, this._groups, this._timeframe, this._interval, this._timezone, options);
+		}
+
+		public validate(): Validation.ValidationError[] {
+			return Validation.validate(this._buildQuery());
+		}
+
+		public execute(options?: ExecuteOptions): Q.IPromise<Api.QueryResults> {
+			var apiQuery = this._buildQuery(),
+				validationErrors = Validation.validate(apiQuery),
+				signal = options ? options.signal : null,
+				timeoutMs = options ? options.timeoutMs : null;
+
+			if (validationErrors.length) {
+				var validationError = new Errors.ConnectQueryError(Validation.formatErrors(validationErrors), 'Invalid', null, apiQuery, { errors: validationErrors });
+
+				this._client.reportQueryError(this._collection, apiQuery, validationError);
+				return Q.reject<Api.QueryResults>(validationError);
+			}
+
+			if (signal && signal.aborted) {
+				return Q.reject<Api.QueryResults>(new Errors.ConnectAbortError('request aborted', null, apiQuery));
+			}
+
+			var executeQuery = this._client.query(this._collection, apiQuery, this._options),
+				computed = this._options.computed || [],
+				transforms = this._options.transforms || [];
 			this._addToRunningQueries(executeQuery);
-			return executeQuery.deferred.promise;
+
+			if (timeoutMs > 0) {
+				var timeout = setTimeout(() => this._cancel(executeQuery, new Errors.ConnectTimeoutError(timeoutMs, null, apiQuery)), timeoutMs),
+					clear = () => clearTimeout(timeout);
+
+				executeQuery.deferred.promise.then(clear, clear);
+			}
+
+			Transport.onAbort(signal, () => this._cancel(executeQuery, new Errors.ConnectAbortError('request aborted', null, apiQuery)));
+
+			if (!computed.length && !transforms.length) {
+				return executeQuery.deferred.promise;
+			}
+
+			return executeQuery.deferred.promise.then(results => {
+				var computedResults = computed.length ? Computed.apply(results, computed) : results;
+
+				return _.reduce(transforms, (transformed: Api.QueryResults, transform: ResultsTransform) => transform(transformed), computedResults);
+			});
+		}
+
+		public subscribe(options?: Subscription.SubscriptionOptions): Subscription.QuerySubscription {
+			return new Subscription.QuerySubscription(() => this.execute(), options);
 		}
 
 		public abort() {
-			var length = this._runningRequests.length;
-			_.each(this._runningRequests, request  => {
-				request.request.abort();
-				request.deferred.reject('request aborted');
-			});
-			this._runningRequests.splice(0, length);
+			var apiQuery = this._runningRequests.length ? this._buildQuery() : null;
+			_.each(this._runningRequests.slice(), request => this._cancel(request, new Errors.ConnectAbortError('request aborted', null, apiQuery)));
+		}
+
+		private _cancel(executeQuery: Api.ClientDeferredQuery, error: Errors.ConnectAbortError) {
+			this._removeFromRunningQueries(executeQuery);
+			executeQuery.request.abort();
+			executeQuery.deferred.reject(error);
+		}
+
+		private _addTransform(transform: ResultsTransform): ConnectQuery {
+			var options = _.extend({}, this._options, { transforms: (this._options.transforms || []).concat([transform]) });
+
+			return new ConnectQuery(this._client, this._collection, this._selects, this._filters, this._groups, this._timeframe, this._interval, this._timezone, options);
+		}
+
+		private _aggregateOther(values: number[], select: string): number {
+			var selectDefinition = this._selects[select],
+				aggregation = _.isString(selectDefinition) ? <string>selectDefinition : _.first(_.keys(selectDefinition));
+
+			return _.has(otherAggregations, aggregation) ? otherAggregations[aggregation](values) : null;
+		}
+
+		private _buildQuery(): Api.Query {
+			var queryBuilder = new QueryBuilder();
+
+			return queryBuilder.build(this._selects, this._filters, this._groups, this._timeframe, this._interval, this._timezone);
 		}
 
 		private _addToRunningQueries(executeQuery:Api.ClientDeferredQuery) {
+			var remove = () => this._removeFromRunningQueries(executeQuery);
+
 			this._runningRequests.push(executeQuery);
-			executeQuery.deferred.promise.then(() => {
-				var finishedQueryIndex = this._runningRequests.indexOf(executeQuery);
-				if(finishedQueryIndex < 0) return;
-				this._runningRequests.splice(finishedQueryIndex, 1);
-			});
+			executeQuery.deferred.promise.then(remove, remove);
+		}
+
+		private _removeFromRunningQueries(executeQuery: Api.ClientDeferredQuery) {
+			var finishedQueryIndex = this._runningRequests.indexOf(executeQuery);
+			if(finishedQueryIndex < 0) return;
+			this._runningRequests.splice(finishedQueryIndex, 1);
 		}
 	}
 }
@@ -1,9 +1,10 @@
 import Api = require('../api')
 import Filters = require('./filters');
 import Selects = require('./selects');
+import _ = require('underscore');
 
 class QueryBuilder {
-	public build(selects: Selects.QuerySelects, filters: Filters.QueryFilter[], groups: string[], timeframe: Api.Timeframe, interval: string, timezone: Api.Timezone): Api.Query {
+	public build(selects: Selects.QuerySelects, filters: Filters.Filter[], groups: string[], timeframe: Api.Timeframe, interval: string, timezone: Api.Timezone): Api.Query {
 		var query = {
 			select: selects || {}
 		};
@@ -31,23 +32,58 @@ class QueryBuilder {
 		return query;
 	}
 
-	private _buildFilter(filters: Filters.QueryFilter[]): Api.QueryFilters {
+	private _buildFilter(filters: Filters.Filter[]): Api.QueryFilters {
 		var queryFilter: Api.QueryFilters = {};
 
-		filters.forEach(function(filter) {
-			var fieldFilters = queryFilter[filter.field];
+		filters.forEach(filter => {
+			if(filter instanceof Filters.CompositeFilter) {
+				this._addCompositeFilter(queryFilter, filter);
+				return;
+			}
+
+			var fieldFilter = <Filters.QueryFilter>filter,
+				fieldFilters = queryFilter[fieldFilter.field];
 
 			if(!fieldFilters) {
 				fieldFilters = {};
 
-				queryFilter[filter.field] = fieldFilters;
+				queryFilter[fieldFilter.field] = fieldFilters;
+			}
+
+			if(!_.has(fieldFilters, fieldFilter.operator)) {
+				fieldFilters[fieldFilter.operator] = fieldFilter.value;
+				return;
+			}
+
+			var condition: Api.QueryFilters = {},
+				conditions: Api.QueryFilters[] = <any>queryFilter['$and'] || [];
+
+			condition[fieldFilter.field] = {};
+			condition[fieldFilter.field][fieldFilter.operator] = fieldFilter.value;
+
+			if(!_.isEqual(fieldFilters[fieldFilter.operator], fieldFilter.value) && !_.some(conditions, existing => _.isEqual(existing, condition))) {
+				queryFilter['$and'] = <any>conditions.concat([condition]);
 			}
-			
-			fieldFilters[filter.operator] = filter.value;
 		});
 
 		return queryFilter;
 	}
+
+	private _addCompositeFilter(queryFilter: Api.QueryFilters, filter: Filters.CompositeFilter) {
+		var key = '$' + filter.combinator,
+			operands = filter.operands.map(operand => this._buildFilter(operand)),
+			value: any = filter.combinator === 'not' ? operands[0] : operands;
+
+		if(filter.combinator === 'and') {
+			queryFilter['$and'] = (<any>queryFilter['$and'] || []).concat(operands);
+		} else if(!queryFilter[key]) {
+			queryFilter[key] = value;
+		} else {
+			var composite = {};
+			composite[key] = value;
+			queryFilter['$and'] = (<any>queryFilter['$and'] || []).concat([composite]);
+		}
+	}
 }
 
 export = QueryBuilder;
\ No newline at end of file
@@ -0,0 +1,27 @@
+declare var Buffer: any;
+declare var btoa: (value: string) => string;
+declare var atob: (value: string) => string;
+
+module Serialization {
+	export function toUrlSafe(json: string): string {
+		var base64 = typeof btoa !== 'undefined' ?
+			btoa(encodeURIComponent(json).replace(/%([0-9A-F]{2})/g, (match, hex) => String.fromCharCode(parseInt(hex, 16)))) :
+			new Buffer(json, 'utf8').toString('base64');
+
+		return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+	}
+
+	export function fromUrlSafe(encoded: string): string {
+		var base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+
+		while (base64.length % 4) {
+			base64 += '=';
+		}
+
+		return typeof atob !== 'undefined' ?
+			decodeURIComponent(atob(base64).replace(/[\s\S]/g, character => '%' + ('0' + character.charCodeAt(0).toString(16)).slice(-2))) :
+			new Buffer(base64, 'base64').toString('utf8');
+	}
+}
+
+export = Serialization;
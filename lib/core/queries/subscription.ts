@@ -0,0 +1,184 @@
+import Api = require('../api');
+import Q = require('q');
+import _ = require('underscore');
+
+declare var document: any;
+
+module Subscription {
+	export type ResultsListener = (results: Api.QueryResults) => void;
+	export type ErrorListener = (error: any) => void;
+
+	export interface SubscriptionOptions {
+		everyMs?: number;
+		maxBackoffMs?: number;
+		pauseWhenHidden?: boolean;
+		onResults?: ResultsListener;
+		onError?: ErrorListener;
+	}
+
+	interface Listener {
+		onResults: ResultsListener;
+		onError: ErrorListener;
+	}
+
+	export var defaultOptions: SubscriptionOptions = {
+		everyMs: 30000,
+		maxBackoffMs: 300000,
+		pauseWhenHidden: true
+	};
+
+	export class QuerySubscription {
+		_execute: () => Q.IPromise<Api.QueryResults>;
+		_options: SubscriptionOptions;
+		private _listeners: Listener[];
+		_latest: Api.QueryResults;
+		_firstResults: Q.Deferred<Api.QueryResults>;
+		_timeout: any;
+		_inFlight: boolean;
+		_failures: number;
+		_paused: boolean;
+		_active: boolean;
+		_onVisibilityChange: () => void;
+
+		constructor(execute: () => Q.IPromise<Api.QueryResults>, options?: SubscriptionOptions) {
+			this._execute = execute;
+			this._options = _.extend({}, defaultOptions, options);
+			this._listeners = [];
+			this._latest = null;
+			this._firstResults = Q.defer<Api.QueryResults>();
+			this._inFlight = false;
+			this._failures = 0;
+			this._paused = false;
+			this._active = true;
+
+			if (this._options.onResults || this._options.onError) {
+				this.addListener(this._options.onResults, this._options.onError);
+			}
+
+			this._listenForVisibility();
+			this._poll();
+		}
+
+		public addListener(onResults?: ResultsListener, onError?: ErrorListener): () => void {
+			var listener: Listener = { onResults: onResults, onError: onError };
+
+			this._listeners.push(listener);
+
+			return () => this._listeners = _.without(this._listeners, listener);
+		}
+
+		public hasResults(): boolean {
+			return this._latest != null;
+		}
+
+		public latestResults(): Q.IPromise<Api.QueryResults> {
+			return this._latest ? Q(this._latest) : this._firstResults.promise;
+		}
+
+		public isPaused(): boolean {
+			return this._paused;
+		}
+
+		public pause() {
+			this._paused = true;
+			clearTimeout(this._timeout);
+		}
+
+		public resume() {
+			if (!this._active || !this._paused) {
+				return;
+			}
+
+			this._paused = false;
+			this._poll();
+		}
+
+		public unsubscribe() {
+			this._active = false;
+			this._listeners = [];
+			clearTimeout(this._timeout);
+
+			if (this._onVisibilityChange) {
+				document.removeEventListener('visibilitychange', this._onVisibilityChange);
+			}
+		}
+
+		private _poll() {
+			clearTimeout(this._timeout);
+
+			if (this._inFlight || !this._canPoll()) {
+				return;
+			}
+
+			this._inFlight = true;
+			this._execute().then(results => {
+				this._inFlight = false;
+				this._failures = 0;
+				this._emitIfChanged(results);
+				this._schedule();
+			}, error => {
+				this._inFlight = false;
+				this._failures++;
+				this._emitError(error);
+				this._schedule();
+			});
+		}
+
+		private _schedule() {
+			if (!this._canPoll()) {
+				return;
+			}
+
+			var delay = Math.min(this._options.everyMs * Math.pow(2, this._failures), Math.max(this._options.everyMs, this._options.maxBackoffMs));
+
+			this._timeout = setTimeout(() => this._poll(), delay);
+		}
+
+		private _canPoll(): boolean {
+			return this._active && !this._paused && !this._isHidden();
+		}
+
+		private _isHidden(): boolean {
+			return this._options.pauseWhenHidden && typeof document !== 'undefined' && !!document.hidden;
+		}
+
+		private _listenForVisibility() {
+			if (!this._options.pauseWhenHidden || typeof document === 'undefined' || !document.addEventListener) {
+				return;
+			}
+
+			this._onVisibilityChange = () => {
+				if (this._isHidden()) {
+					clearTimeout(this._timeout);
+				} else {
+					this._poll();
+				}
+			};
+
+			document.addEventListener('visibilitychange', this._onVisibilityChange);
+		}
+
+		private _emitIfChanged(results: Api.QueryResults) {
+			var previous = this._latest;
+
+			if (previous && _.isEqual(previous.metadata, results.metadata) && _.isEqual(previous.results, results.results)) {
+				return;
+			}
+
+			this._latest = results;
+			this._firstResults.resolve(results);
+			_.each(this._listeners, listener => listener.onResults && listener.onResults(results));
+		}
+
+		private _emitError(error: any) {
+			if (!this._latest) {
+				this._firstResults.reject(error);
+				this._firstResults = Q.defer<Api.QueryResults>();
+			}
+
+			_.each(this._listeners, listener => listener.onError && listener.onError(error));
+		}
+	}
+}
+
+export = Subscription;
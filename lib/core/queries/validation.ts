@@ -0,0 +1,208 @@
+import Api = require('../api');
+import Time = require('../time');
+import moment = require('moment-timezone');
+import _ = require('underscore');
+
+module Validation {
+	export interface ValidationError {
+		path: string;
+		message: string;
+	}
+
+	export var aggregations = ['count', 'sum', 'avg', 'min', 'max'];
+	export var operators = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'exists', 'startsWith', 'endsWith', 'contains', 'in'];
+
+	export function validate(query: Api.Query): ValidationError[] {
+		var errors: ValidationError[] = [],
+			addError = (path: string, message: string) => errors.push({ path: path, message: message });
+
+		validateSelects(query.select, addError);
+		validateFilters(query.filter, addError);
+		validateGroups(query.groupBy, addError);
+		validateTimeframe(query.timeframe, addError);
+		validateInterval(query.interval, addError);
+		validateTimezone(query.timezone, addError);
+
+		return errors;
+	}
+
+	export function formatErrors(errors: ValidationError[]): string {
+		return _.map(errors, error => error.path + ': ' + error.message).join(' ');
+	}
+
+	type AddError = (path: string, message: string) => void;
+
+	function validateSelects(selects: Api.QuerySelects, addError: AddError) {
+		_.each(_.keys(selects || {}), alias => {
+			var select = selects[alias],
+				path = 'select.' + alias;
+
+			if (_.isString(select)) {
+				if (select !== 'count') {
+					addError(path, 'Unknown aggregation "' + select + '", only "count" can be used without a field.');
+				}
+				return;
+			}
+
+			var aggregationNames = _.keys(select);
+
+			if (aggregationNames.length !== 1) {
+				addError(path, 'You can only provide one aggregation function per select.');
+				return;
+			}
+
+			var aggregation = aggregationNames[0];
+
+			if (!_.contains(aggregations, aggregation)) {
+				addError(path + '.' + aggregation, 'Unknown aggregation "' + aggregation + '", expected one of ' + aggregations.join(', ') + '.');
+			} else if (!_.isString(select[aggregation])) {
+				addError(path + '.' + aggregation, 'The aggregation "' + aggregation + '" requires a field name.');
+			}
+		});
+	}
+
+	function validateFilters(filters: Api.QueryFilters, addError: AddError, path: string = 'filter') {
+		_.each(_.keys(filters || {}), field => {
+			var fieldPath = path + '.' + field;
+
+			if (field === '$or' || field === '$and') {
+				if (!_.isArray(filters[field]) || _.isEmpty(filters[field])) {
+					addError(fieldPath, 'The "' + field + '" filter requires a non-empty array of filters.');
+					return;
+				}
+
+				_.each(<Api.QueryFilters[]>filters[field], (operand, index) => validateFilters(operand, addError, fieldPath + '.' + index));
+				return;
+			}
+
+			if (field === '$not') {
+				validateFilters(filters[field], addError, fieldPath);
+				return;
+			}
+
+			_.each(_.keys(filters[field]), operator => {
+				if (!_.contains(operators, operator)) {
+					addError(fieldPath + '.' + operator, 'Unknown filter operator "' + operator + '", expected one of ' + operators.join(', ') + '.');
+				}
+			});
+
+			if (_.has(filters[field], 'in') && !_.isArray(filters[field]['in'])) {
+				addError(fieldPath + '.in', 'The "in" operator requires an array of values.');
+			}
+		});
+	}
+
+	function validateGroups(groups: string[], addError: AddError) {
+		_.each(groups || [], (group, index) => {
+			if (!_.isString(group) || !group) {
+				addError('groupBy.' + index, 'Group by fields must be non-empty strings.');
+			}
+		});
+	}
+
+	function validateTimeframe(timeframe: Api.Timeframe, addError: AddError) {
+		if (timeframe == null) {
+			return;
+		}
+
+		if (_.isString(timeframe)) {
+			if (!_.has(Time.namedTimeframes, <string>timeframe)) {
+				addError('timeframe', 'Unknown timeframe "' + timeframe + '", expected one of ' + _.keys(Time.namedTimeframes).join(', ') + '.');
+			}
+			return;
+		}
+
+		var relative = <Api.RelativeTimeframe>timeframe;
+
+		if (relative.current != null || relative.previous != null) {
+			validateRelativeTimeframe(relative, addError);
+			return;
+		}
+
+		validateAbsoluteTimeframe(<Api.AbsoluteTimeframe>timeframe, addError);
+	}
+
+	function validateRelativeTimeframe(timeframe: Api.RelativeTimeframe, addError: AddError) {
+		var directions = _.keys(timeframe);
+
+		if (directions.length !== 1) {
+			addError('timeframe', 'A relative timeframe must have exactly one of "current" or "previous".');
+			return;
+		}
+
+		var direction = directions[0],
+			period: Api.Period = timeframe[direction],
+			path = 'timeframe.' + direction,
+			periodNames = _.keys(period || {});
+
+		if (!_.isObject(period) || periodNames.length !== 1) {
+			addError(path, 'A relative timeframe requires exactly one period, e.g. { days: 7 }.');
+			return;
+		}
+
+		var periodName = periodNames[0],
+			amount = period[periodName];
+
+		if (!_.has(Time.periodUnits, periodName)) {
+			addError(path + '.' + periodName, 'Unknown period "' + periodName + '", expected one of ' + _.keys(Time.periodUnits).join(', ') + '.');
+		} else if (!_.isNumber(amount) || amount < 1 || Math.floor(amount) !== amount) {
+			addError(path + '.' + periodName, 'The period must be a positive whole number.');
+		}
+	}
+
+	function validateAbsoluteTimeframe(timeframe: Api.AbsoluteTimeframe, addError: AddError) {
+		var start = parseDate(timeframe.start),
+			end = parseDate(timeframe.end);
+
+		if (timeframe.start == null && timeframe.end == null) {
+			addError('timeframe', 'An absolute timeframe requires a start, an end or both.');
+		}
+
+		if (timeframe.start != null && start == null) {
+			addError('timeframe.start', 'The start is not a valid date.');
+		}
+
+		if (timeframe.end != null && end == null) {
+			addError('timeframe.end', 'The end is not a valid date.');
+		}
+
+		if (start != null && end != null && start >= end) {
+			addError('timeframe', 'The start must be before the end.');
+		}
+	}
+
+	function parseDate(value: Date|string): number {
+		if (value == null) {
+			return null;
+		}
+
+		var time = new Date(<any>value).getTime();
+
+		return isNaN(time) ? null : time;
+	}
+
+	function validateInterval(interval: string, addError: AddError) {
+		if (interval != null && !Time.isInterval(interval)) {
+			addError('interval', 'Unknown interval "' + interval + '", expected one of ' + _.keys(Time.intervalUnits).join(', ') + '.');
+		}
+	}
+
+	function validateTimezone(timezone: Api.Timezone, addError: AddError) {
+		if (timezone == null) {
+			return;
+		}
+
+		if (_.isNumber(timezone)) {
+			if (timezone < -12 || timezone > 14) {
+				addError('timezone', 'Timezone offsets must be between -12 and 14 hours.');
+			}
+			return;
+		}
+
+		if (!_.isString(timezone) || !moment.tz.zone(<string>timezone)) {
+			addError('timezone', 'Unknown timezone "' + timezone + '".');
+		}
+	}
+}
+
+export = Validation;
@@ -0,0 +1,58 @@
+import Config = require('./config');
+import _ = require('underscore');
+
+module Retry {
+    export var defaultPolicy: Config.RetryPolicy = {
+        maxAttempts: 1,
+        initialDelayMs: 500,
+        maxDelayMs: 30000,
+        backoffFactor: 2,
+        jitter: true,
+        retryableStatuses: [408, 502, 503, 504, 'NetworkFailure'],
+        respectRetryAfter: true
+    };
+
+    export function resolvePolicy(options: Config.RetryOptions, kind: string): Config.RetryPolicy {
+        var sharedPolicy = _.omit(options || {}, 'push', 'query'),
+            kindPolicy = options ? options[kind] : null;
+
+        return _.extend({}, defaultPolicy, sharedPolicy, kindPolicy);
+    }
+
+    export function isRetryable(policy: Config.RetryPolicy, status: number|string): boolean {
+        return _.contains(policy.retryableStatuses, status);
+    }
+
+    // Returns the delay before the next attempt, or null when the request should not be retried.
+    export function nextDelay(policy: Config.RetryPolicy, attempt: number, status: number|string, retryAfter?: string, random: () => number = Math.random): number {
+        if (attempt >= policy.maxAttempts || !isRetryable(policy, status)) {
+            return null;
+        }
+
+        var backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1)),
+            delay = policy.jitter ? Math.floor(random() * backoff) : backoff,
+            retryAfterMs = policy.respectRetryAfter ? parseRetryAfter(retryAfter) : null;
+
+        if (retryAfterMs == null) {
+            return delay;
+        }
+
+        return retryAfterMs > policy.maxDelayMs ? null : Math.max(delay, retryAfterMs);
+    }
+
+    export function parseRetryAfter(value: string, now: number = Date.now()): number {
+        if (value == null || value === '') {
+            return null;
+        }
+
+        var seconds = Number(value);
+        if (!isNaN(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+
+        var date = Date.parse(value);
+        return isNaN(date) ? null : Math.max(0, date - now);
+    }
+}
+
+export = Retry;
@@ -0,0 +1,80 @@
+import _ = require('underscore');
+import Api = require('./api');
+
+module Rows {
+    export interface ResultRow {
+        interval?: Api.QueryResultInterval;
+        groups: { [group: string]: any };
+        values: { [select: string]: any };
+    }
+
+    export interface Matrix {
+        rows: any[];
+        columns: any[];
+        values: any[][];
+    }
+
+    export var intervalKey = 'interval';
+
+    export function toRows(results: Api.QueryResults): ResultRow[] {
+        var groups = results.metadata.groups || [],
+            selects = results.selects();
+
+        var valuesOf = (item: Api.QueryResultItem, keys: string[]) => _.object(keys, _.map(keys, key => item[key] !== undefined ? item[key] : null));
+
+        var buildRow = (item: Api.QueryResultItem, interval?: Api.QueryResultInterval): ResultRow => {
+            var row: ResultRow = {
+                groups: valuesOf(item, groups),
+                values: valuesOf(item, selects)
+            };
+
+            if (interval) {
+                row.interval = { start: interval.start, end: interval.end };
+            }
+
+            return row;
+        };
+
+        if (!results.metadata.interval) {
+            return _.map(results.results, item => buildRow(item));
+        }
+
+        return _.flatten(_.map(results.results, result => _.map(result.results, item => buildRow(item, result.interval))), true);
+    }
+
+    export function toMatrix(results: Api.QueryResults, rowKey: string, columnKey: string, select: string): Matrix {
+        var rows = toRows(results),
+            rowValues = uniqueKeys(rows, rowKey),
+            columnValues = uniqueKeys(rows, columnKey),
+            rowIndexes = indexKeys(rowValues),
+            columnIndexes = indexKeys(columnValues),
+            values = _.map(rowValues, () => _.map(columnValues, () => null));
+
+        _.each(rows, row => {
+            var rowIndex = rowIndexes[comparable(keyValue(row, rowKey))],
+                columnIndex = columnIndexes[comparable(keyValue(row, columnKey))];
+
+            values[rowIndex][columnIndex] = row.values[select];
+        });
+
+        return { rows: rowValues, columns: columnValues, values: values };
+    }
+
+    function keyValue(row: ResultRow, key: string): any {
+        return key === intervalKey ? (row.interval ? row.interval.start : null) : row.groups[key];
+    }
+
+    function comparable(value: any): string {
+        return JSON.stringify(_.isDate(value) ? value.getTime() : value);
+    }
+
+    function uniqueKeys(rows: ResultRow[], key: string): any[] {
+        return _.uniq(_.map(rows, row => keyValue(row, key)), false, comparable);
+    }
+
+    function indexKeys(keys: any[]): { [key: string]: number } {
+        return <{ [key: string]: number }>_.object(_.map(keys, comparable), _.range(keys.length));
+    }
+}
+
+export = Rows;
@@ -0,0 +1,149 @@
+import _ = require('underscore');
+import Q = require('q');
+import Config = require('./config');
+import Api = require('./api');
+import Transport = require('./transports/transport');
+
+module Scheduler {
+    export var priorities: { [priority: string]: number } = {
+        high: 0,
+        normal: 1,
+        low: 2
+    };
+
+    export interface SchedulerMetrics {
+        maxConcurrent: number;
+        running: number;
+        queued: number;
+        queuedByPriority: { [priority: string]: number };
+        started: number;
+        completed: number;
+        aborted: number;
+        averageWaitMs: number;
+    }
+
+    interface QueuedTask {
+        task: () => Api.ClientDeferredQuery;
+        priority: string;
+        sequence: number;
+        queuedAt: number;
+        deferred: Q.Deferred<any>;
+        controller: Transport.AbortController;
+    }
+
+    export class QueryScheduler {
+        private _maxConcurrent: number;
+        private _queue: QueuedTask[];
+        private _running: number;
+        private _sequence: number;
+        private _started: number;
+        private _completed: number;
+        private _aborted: number;
+        private _totalWaitMs: number;
+
+        constructor(options?: Config.SchedulerOptions) {
+            var maxConcurrent = options && options.maxConcurrent;
+
+            this._maxConcurrent = maxConcurrent > 0 ? maxConcurrent : Infinity;
+            this._queue = [];
+            this._running = 0;
+            this._sequence = 0;
+            this._started = 0;
+            this._completed = 0;
+            this._aborted = 0;
+            this._totalWaitMs = 0;
+        }
+
+        public schedule(task: () => Api.ClientDeferredQuery, priority: string = 'normal'): Api.ClientDeferredQuery {
+            if (!_.has(priorities, priority)) {
+                throw new Error('Unknown priority "' + priority + '", expected one of ' + _.keys(priorities).join(', ') + '.');
+            }
+
+            var queued: QueuedTask = {
+                task: task,
+                priority: priority,
+                sequence: this._sequence++,
+                queuedAt: Date.now(),
+                deferred: Q.defer(),
+                controller: new Transport.AbortController()
+            };
+
+            Transport.onAbort(queued.controller.signal, () => {
+                var index = this._queue.indexOf(queued);
+
+                if (index >= 0) {
+                    this._queue.splice(index, 1);
+                    this._aborted++;
+                }
+            });
+
+            this._enqueue(queued);
+            this._drain();
+
+            return { deferred: queued.deferred, request: queued.controller };
+        }
+
+        public metrics(): SchedulerMetrics {
+            var queuedByPriority = <{ [priority: string]: number }>_.object(_.keys(priorities), _.map(_.keys(priorities), () => 0));
+
+            _.each(this._queue, queued => queuedByPriority[queued.priority]++);
+
+            return {
+                maxConcurrent: this._maxConcurrent,
+                running: this._running,
+                queued: this._queue.length,
+                queuedByPriority: queuedByPriority,
+                started: this._started,
+                completed: this._completed,
+                aborted: this._aborted,
+                averageWaitMs: this._started ? this._totalWaitMs / this._started : 0
+            };
+        }
+
+        private _enqueue(queued: QueuedTask) {
+            var index = _.sortedIndex(this._queue, queued, item => priorities[item.priority] * 1e9 + item.sequence);
+
+            this._queue.splice(index, 0, queued);
+        }
+
+        private _drain() {
+            while (this._running < this._maxConcurrent && this._queue.length) {
+                this._start(this._queue.shift());
+            }
+        }
+
+        private _start(queued: QueuedTask) {
+            var request = queued.task(),
+                isFinished = false,
+                finish = () => {
+                    if (isFinished) {
+                        return;
+                    }
+
+                    isFinished = true;
+                    this._running--;
+                    this._completed++;
+                    this._drain();
+                };
+
+            this._running++;
+            this._started++;
+            this._totalWaitMs += Date.now() - queued.queuedAt;
+
+            Transport.onAbort(queued.controller.signal, () => {
+                request.request.abort();
+                finish();
+            });
+
+            request.deferred.promise.then(results => {
+                finish();
+                queued.deferred.resolve(results);
+            }, error => {
+                finish();
+                queued.deferred.reject(error);
+            });
+        }
+    }
+}
+
+export = Scheduler;
@@ -0,0 +1,82 @@
+import crypto = require('crypto');
+import Api = require('./api');
+import Filters = require('./queries/filters');
+import QueryBuilder = require('./queries/query-builder');
+import _ = require('underscore');
+
+// Server only: this module needs Node's crypto, so it is deliberately not reachable from Connect or the browser bundles.
+module ScopedKeys {
+    export interface ScopedKeyOptions {
+        filters?: any;
+        collections?: string[];
+    }
+
+    export interface KeyDefinition {
+        filters: Api.QueryFilters;
+        collections?: string[];
+        canQuery: boolean;
+        canPush: boolean;
+    }
+
+    var algorithm = 'aes-256-cbc';
+
+    // A scoped key is a filtered key definition encrypted with the project's master key: the hex IV, a dash
+    // and the hex cipher text. The API decrypts it and applies the filters to every query made with it.
+    export function generate(masterKey: string, options: ScopedKeyOptions): string {
+        var definition = buildDefinition(options || {}),
+            iv = crypto.randomBytes(16),
+            cipher = crypto.createCipheriv(algorithm, encryptionKey(masterKey), iv),
+            encrypted = cipher.update(JSON.stringify(definition), 'utf8', 'hex') + cipher.final('hex');
+
+        return iv.toString('hex') + '-' + encrypted;
+    }
+
+    export function decode(masterKey: string, scopedKey: string): KeyDefinition {
+        var parts = _.isString(scopedKey) ? scopedKey.split('-') : [];
+
+        if (parts.length !== 2 || !/^[0-9a-f]{32}$/i.test(parts[0]) || !/^[0-9a-f]+$/i.test(parts[1])) {
+            throw new Error('The scoped key is invalid.');
+        }
+
+        try {
+            var decipher = crypto.createDecipheriv(algorithm, encryptionKey(masterKey), new Buffer(parts[0], 'hex'));
+
+            return JSON.parse(decipher.update(parts[1], 'hex', 'utf8') + decipher.final('utf8'));
+        } catch(e) {
+            throw new Error('The scoped key is invalid.');
+        }
+    }
+
+    function encryptionKey(masterKey: string): any {
+        var key = _.isString(masterKey) ? new Buffer(masterKey, 'utf8') : null;
+
+        if (!key || key.length !== 32) {
+            throw new Error('A 32 character master key is required for scoped keys.');
+        }
+
+        return key;
+    }
+
+    function buildDefinition(options: ScopedKeyOptions): KeyDefinition {
+        var filters: Filters.Filter[] = options.filters instanceof Filters.CompositeFilter ?
+                [options.filters] :
+                _.chain(options.filters || {}).map(Filters.queryFilterBuilder).flatten().value(),
+            definition: KeyDefinition = {
+                filters: new QueryBuilder().build({}, filters, [], null, null, null).filter || {},
+                canQuery: true,
+                canPush: false
+            };
+
+        if (!_.isEmpty(options.collections)) {
+            if (!_.every(options.collections, collection => _.isString(collection) && !!collection)) {
+                throw new Error('Scoped key collections must be non-empty strings.');
+            }
+
+            definition.collections = options.collections;
+        }
+
+        return definition;
+    }
+}
+
+export = ScopedKeys;
@@ -0,0 +1,142 @@
+import moment = require('moment-timezone');
+import _ = require('underscore');
+import Api = require('./api');
+
+module Time {
+    export interface DateRange {
+        start: Date;
+        end: Date;
+    }
+
+    // The one list of intervals: anything keyed by interval, like the visualizations' default formats, is typed with it.
+    export interface Intervals<T> {
+        [interval: string]: T;
+        minutely: T;
+        hourly: T;
+        daily: T;
+        weekly: T;
+        monthly: T;
+        quarterly: T;
+        yearly: T;
+    }
+
+    export var intervalUnits: Intervals<string> = {
+        minutely: 'minute',
+        hourly: 'hour',
+        daily: 'day',
+        weekly: 'week',
+        monthly: 'month',
+        quarterly: 'quarter',
+        yearly: 'year'
+    };
+
+    export var periodUnits = {
+        minutes: 'minute',
+        hours: 'hour',
+        days: 'day',
+        weeks: 'week',
+        months: 'month',
+        quarters: 'quarter',
+        years: 'year'
+    };
+
+    export var namedTimeframes: { [name: string]: Api.RelativeTimeframe } = {
+        today: { current: { days: 1 } },
+        yesterday: { previous: { days: 1 } },
+        this_week: { current: { weeks: 1 } },
+        last_week: { previous: { weeks: 1 } },
+        this_month: { current: { months: 1 } },
+        last_month: { previous: { months: 1 } },
+        this_quarter: { current: { quarters: 1 } },
+        last_quarter: { previous: { quarters: 1 } },
+        this_year: { current: { years: 1 } },
+        last_year: { previous: { years: 1 } }
+    };
+
+    export function isInterval(interval: string): boolean {
+        return _.has(intervalUnits, interval);
+    }
+
+    export function inTimezone(date: Date|string|moment.Moment, timezone: Api.Timezone): moment.Moment {
+        var zoned: any = moment(<any>date);
+
+        if (_.isString(timezone)) {
+            return zoned.tz(<string>timezone);
+        }
+
+        if (_.isNumber(timezone)) {
+            return zoned.utcOffset(<number>timezone * 60);
+        }
+
+        return zoned.utc();
+    }
+
+    // Weeks start on Monday, regardless of the locale moment has been configured with.
+    export function startOf(date: moment.Moment, unit: string): moment.Moment {
+        return date.clone().startOf(unit === 'week' ? 'isoWeek' : unit);
+    }
+
+    export function startOfInterval(date: moment.Moment, interval: string): moment.Moment {
+        return startOf(date, intervalUnits[interval]);
+    }
+
+    export function addInterval(date: moment.Moment, interval: string, amount: number = 1): moment.Moment {
+        return date.clone().add(amount, intervalUnits[interval]);
+    }
+
+    export function resolveTimeframe(timeframe: Api.Timeframe, timezone: Api.Timezone, now: Date = new Date()): DateRange {
+        if (timeframe == null) {
+            return null;
+        }
+
+        if (_.isString(timeframe)) {
+            var named = namedTimeframes[<string>timeframe];
+
+            if (!named) {
+                throw new Error('Unknown timeframe "' + timeframe + '".');
+            }
+
+            return resolveTimeframe(named, timezone, now);
+        }
+
+        var relative = <Api.RelativeTimeframe>timeframe;
+
+        if (relative.current || relative.previous) {
+            return resolveRelativeTimeframe(relative, timezone, now);
+        }
+
+        var absolute = <Api.AbsoluteTimeframe>timeframe;
+
+        return {
+            start: absolute.start != null ? new Date(<any>absolute.start) : null,
+            end: absolute.end != null ? new Date(<any>absolute.end) : null
+        };
+    }
+
+    function resolveRelativeTimeframe(timeframe: Api.RelativeTimeframe, timezone: Api.Timezone, now: Date): DateRange {
+        var isCurrent = timeframe.current != null,
+            period = isCurrent ? timeframe.current : timeframe.previous,
+            periodName = _.find(_.keys(periodUnits), name => period[name] != null),
+            unit = periodUnits[periodName],
+            amount = periodName ? period[periodName] : 0,
+            startOfCurrent = startOf(inTimezone(now, timezone), unit);
+
+        if (!periodName) {
+            throw new Error('A relative timeframe requires a period such as { days: 7 }.');
+        }
+
+        if (isCurrent) {
+            return {
+                start: startOfCurrent.clone().subtract(amount - 1, unit).toDate(),
+                end: startOfCurrent.clone().add(1, unit).toDate()
+            };
+        }
+
+        return {
+            start: startOfCurrent.clone().subtract(amount, unit).toDate(),
+            end: startOfCurrent.toDate()
+        };
+    }
+}
+
+export = Time;
@@ -0,0 +1,197 @@
+import _ = require('underscore');
+import Api = require('./api');
+import Time = require('./time');
+
+module Timeframes {
+    export class PeriodBuilder {
+        private _direction: string;
+        private _amount: number;
+
+        constructor(direction: string, amount: number) {
+            this._direction = direction;
+            this._amount = amount;
+        }
+
+        public minutes(): Api.RelativeTimeframe {
+            return this._build('minutes');
+        }
+
+        public hours(): Api.RelativeTimeframe {
+            return this._build('hours');
+        }
+
+        public days(): Api.RelativeTimeframe {
+            return this._build('days');
+        }
+
+        public weeks(): Api.RelativeTimeframe {
+            return this._build('weeks');
+        }
+
+        public months(): Api.RelativeTimeframe {
+            return this._build('months');
+        }
+
+        public quarters(): Api.RelativeTimeframe {
+            return this._build('quarters');
+        }
+
+        public years(): Api.RelativeTimeframe {
+            return this._build('years');
+        }
+
+        private _build(periodName: string): Api.RelativeTimeframe {
+            var timeframe: Api.RelativeTimeframe = {},
+                period: Api.Period = {};
+
+            period[periodName] = this._amount;
+            timeframe[this._direction] = period;
+
+            return timeframe;
+        }
+    }
+
+    export function current(amount: number = 1): PeriodBuilder {
+        return new PeriodBuilder('current', amount);
+    }
+
+    export function previous(amount: number = 1): PeriodBuilder {
+        return new PeriodBuilder('previous', amount);
+    }
+
+    export function named(name: string): Api.RelativeTimeframe {
+        var timeframe = Time.namedTimeframes[name];
+
+        if (!timeframe) {
+            throw new Error('Unknown timeframe "' + name + '".');
+        }
+
+        return JSON.parse(JSON.stringify(timeframe));
+    }
+
+    export function today(): Api.RelativeTimeframe {
+        return named('today');
+    }
+
+    export function yesterday(): Api.RelativeTimeframe {
+        return named('yesterday');
+    }
+
+    export function thisWeek(): Api.RelativeTimeframe {
+        return named('this_week');
+    }
+
+    export function lastWeek(): Api.RelativeTimeframe {
+        return named('last_week');
+    }
+
+    export function thisMonth(): Api.RelativeTimeframe {
+        return named('this_month');
+    }
+
+    export function lastMonth(): Api.RelativeTimeframe {
+        return named('last_month');
+    }
+
+    export function thisQuarter(): Api.RelativeTimeframe {
+        return named('this_quarter');
+    }
+
+    export function lastQuarter(): Api.RelativeTimeframe {
+        return named('last_quarter');
+    }
+
+    export function thisYear(): Api.RelativeTimeframe {
+        return named('this_year');
+    }
+
+    export function lastYear(): Api.RelativeTimeframe {
+        return named('last_year');
+    }
+
+    export function between(start: Date|string, end: Date|string): Api.AbsoluteTimeframe {
+        return { start: start, end: end };
+    }
+
+    export function since(start: Date|string): Api.AbsoluteTimeframe {
+        return { start: start };
+    }
+
+    export function toDate(unit: string, timezone?: Api.Timezone, now: Date = new Date()): Api.AbsoluteTimeframe {
+        if (!_.contains(_.values(Time.periodUnits), unit)) {
+            throw new Error('Unknown unit "' + unit + '".');
+        }
+
+        return {
+            start: Time.startOf(Time.inTimezone(now, timezone), unit).toDate(),
+            end: new Date(now.getTime())
+        };
+    }
+
+    export function weekToDate(timezone?: Api.Timezone, now?: Date): Api.AbsoluteTimeframe {
+        return toDate('week', timezone, now);
+    }
+
+    export function monthToDate(timezone?: Api.Timezone, now?: Date): Api.AbsoluteTimeframe {
+        return toDate('month', timezone, now);
+    }
+
+    export function quarterToDate(timezone?: Api.Timezone, now?: Date): Api.AbsoluteTimeframe {
+        return toDate('quarter', timezone, now);
+    }
+
+    export function yearToDate(timezone?: Api.Timezone, now?: Date): Api.AbsoluteTimeframe {
+        return toDate('year', timezone, now);
+    }
+
+    export function shift(timeframe: Api.Timeframe, amount: number, unit: string, timezone?: Api.Timezone, now: Date = new Date()): Api.AbsoluteTimeframe {
+        var range = resolve(timeframe, timezone, now),
+            shifted: Api.AbsoluteTimeframe = {};
+
+        if (!range) {
+            throw new Error('A timeframe is required to shift.');
+        }
+
+        if (range.start) {
+            shifted.start = Time.inTimezone(range.start, timezone).add(amount, unit).toDate();
+        }
+
+        if (range.end) {
+            shifted.end = Time.inTimezone(range.end, timezone).add(amount, unit).toDate();
+        }
+
+        return shifted;
+    }
+
+    export function samePeriodLastYear(timeframe: Api.Timeframe, timezone?: Api.Timezone, now?: Date): Api.AbsoluteTimeframe {
+        return shift(timeframe, -1, 'year', timezone, now);
+    }
+
+    export function previousPeriod(timeframe: Api.Timeframe, timezone?: Api.Timezone, now: Date = new Date()): Api.AbsoluteTimeframe {
+        var relative = <Api.RelativeTimeframe>(_.isString(timeframe) ? named(<string>timeframe) : timeframe),
+            period = relative ? relative.current || relative.previous : null;
+
+        if (period) {
+            var periodName = _.find(_.keys(Time.periodUnits), name => period[name] != null);
+
+            return shift(timeframe, -period[periodName], Time.periodUnits[periodName], timezone, now);
+        }
+
+        var range = resolve(timeframe, timezone, now);
+
+        if (!range || !range.start || !range.end) {
+            throw new Error('The previous period can only be found for a timeframe with a start and an end.');
+        }
+
+        return {
+            start: new Date(2 * range.start.getTime() - range.end.getTime()),
+            end: new Date(range.start.getTime())
+        };
+    }
+
+    export function resolve(timeframe: Api.Timeframe, timezone?: Api.Timezone, now?: Date): Time.DateRange {
+        return Time.resolveTimeframe(timeframe, timezone, now);
+    }
+}
+
+export = Timeframes;
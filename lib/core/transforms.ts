@@ -0,0 +1,165 @@
+import _ = require('underscore');
+import Api = require('./api');
+import Time = require('./time');
+
+module Transforms {
+    export type RowPredicate = (row: Api.QueryResultItem, interval?: Api.QueryResultInterval) => boolean;
+    export type OtherAggregate = (values: number[], select: string) => number;
+
+    export interface TopOptions {
+        select?: string;
+        otherLabel?: string;
+        aggregate?: OtherAggregate;
+    }
+
+    export interface FillGapsOptions {
+        value?: any;
+        timeframe?: Api.Timeframe;
+        now?: Date;
+    }
+
+    export function sum(values: number[]): number {
+        return _.reduce<number, number>(values, (total, value) => total + value, 0);
+    }
+
+    export function sortBy(results: Api.QueryResults, select: string, direction: string = 'asc'): Api.QueryResultItem[] {
+        var descending = direction === 'desc';
+
+        return mapRows(results, rows => {
+            var sorted = _.sortBy(rows, row => row[select] == null ? (descending ? -Infinity : Infinity) : row[select]);
+
+            return descending ? sorted.reverse() : sorted;
+        });
+    }
+
+    export function limit(results: Api.QueryResults, count: number): Api.QueryResultItem[] {
+        return mapRows(results, rows => _.first(rows, count));
+    }
+
+    export function filterRows(results: Api.QueryResults, predicate: RowPredicate): Api.QueryResultItem[] {
+        return mapRows(results, (rows, interval) => _.filter(rows, row => predicate(row, interval)));
+    }
+
+    export function top(results: Api.QueryResults, count: number, options?: TopOptions): Api.QueryResultItem[] {
+        options = options || {};
+
+        // Results don't say how each select was aggregated (an avg can't be summed), so the caller has to.
+        if (options.otherLabel != null && !options.aggregate) {
+            throw new Error('An aggregate is required to fold the remaining rows into "' + options.otherLabel + '".');
+        }
+
+        var groups = results.metadata.groups || [],
+            selects = results.selects(),
+            select = options.select || _.first(selects),
+            aggregate = options.aggregate,
+            groupKey = (row: Api.QueryResultItem) => JSON.stringify(_.map(groups, group => row[group])),
+            totals: { [key: string]: number } = {};
+
+        _.each(allRows(results), row => {
+            var key = groupKey(row);
+            totals[key] = (totals[key] || 0) + (_.isNumber(row[select]) ? row[select] : 0);
+        });
+
+        var ranked = _.sortBy(_.keys(totals), key => -totals[key]),
+            kept = _.first(ranked, count),
+            hasOther = options.otherLabel != null && ranked.length > count;
+
+        return mapRows(results, rows => {
+            var keptRows = _.sortBy(_.filter(rows, row => _.contains(kept, groupKey(row))), row => _.indexOf(kept, groupKey(row))),
+                otherRows = _.reject(rows, row => _.contains(kept, groupKey(row)));
+
+            if (!hasOther) {
+                return keptRows;
+            }
+
+            var other: Api.QueryResultItem = {};
+
+            _.each(groups, group => other[group] = options.otherLabel);
+            _.each(selects, select => {
+                var values = _.filter(_.pluck(otherRows, select), value => _.isNumber(value));
+                other[select] = aggregate(values, select);
+            });
+
+            return keptRows.concat([other]);
+        });
+    }
+
+    export function fillGaps(results: Api.QueryResults, options?: FillGapsOptions): Api.QueryResultItem[] {
+        options = options || {};
+
+        var interval = results.metadata.interval,
+            timezone = results.metadata.timezone,
+            groups = results.metadata.groups || [],
+            selects = results.selects(),
+            fillValue = options.value !== undefined ? options.value : 0,
+            now = options.now || new Date();
+
+        if (!interval || (!results.results.length && !options.timeframe)) {
+            return results.results;
+        }
+
+        var range = Time.resolveTimeframe(options.timeframe, timezone, now) || { start: null, end: null },
+            byStart = _.indexBy(results.results, result => new Date(<any>result.interval.start).getTime()),
+            existingStarts = _.sortBy(_.map(_.keys(byStart), key => Number(key)), start => start),
+            start = range.start || (existingStarts.length ? new Date(_.first(existingStarts)) : null),
+            end = range.end || range.start ? new Date(Math.min(range.end ? range.end.getTime() : Infinity, now.getTime())) : null;
+
+        if (existingStarts.length) {
+            end = new Date(Math.max(end ? end.getTime() : 0, _.last(existingStarts) + 1));
+        }
+
+        if (!start || !end) {
+            return results.results;
+        }
+
+        var groupRows = _.uniq(_.map(allRows(results), row => _.pick(row, groups)), false, row => JSON.stringify(row)),
+            filledRows: Api.QueryResultItem[] = [],
+            bucket = Time.startOfInterval(Time.inTimezone(start, timezone), interval);
+
+        while (bucket.toDate() < end) {
+            var bucketStart = bucket.toDate(),
+                bucketEnd = Time.addInterval(bucket, interval),
+                existing = byStart[bucketStart.getTime()];
+
+            filledRows.push({
+                interval: existing ? existing.interval : { start: bucketStart, end: bucketEnd.toDate() },
+                results: fillGroups(existing ? existing.results : [], groupRows, groups, selects, fillValue)
+            });
+
+            bucket = bucketEnd;
+        }
+
+        return filledRows;
+    }
+
+    function fillGroups(rows: Api.QueryResultItem[], groupRows: any[], groups: string[], selects: string[], fillValue: any): Api.QueryResultItem[] {
+        var groupKey = (row: Api.QueryResultItem) => JSON.stringify(_.map(groups, group => row[group])),
+            existingKeys = _.map(rows, groupKey),
+            missingRows = groups.length ? _.filter(groupRows, row => !_.contains(existingKeys, groupKey(row))) : (rows.length ? [] : [{}]);
+
+        return rows.concat(_.map(missingRows, row => {
+            var filled: Api.QueryResultItem = _.clone(row);
+
+            _.each(selects, select => filled[select] = fillValue);
+
+            return filled;
+        }));
+    }
+
+    function allRows(results: Api.QueryResults): Api.QueryResultItem[] {
+        return results.metadata.interval ? _.flatten(_.map(results.results, result => result.results), true) : results.results;
+    }
+
+    function mapRows(results: Api.QueryResults, transform: (rows: Api.QueryResultItem[], interval?: Api.QueryResultInterval) => Api.QueryResultItem[]): Api.QueryResultItem[] {
+        if (!results.metadata.interval) {
+            return transform(results.results);
+        }
+
+        return _.map(results.results, result => <Api.QueryResultItem>{
+            interval: result.interval,
+            results: transform(result.results, result.interval)
+        });
+    }
+}
+
+export = Transforms;
@@ -0,0 +1,34 @@
+import Q = require('q');
+import Transport = require('./transport');
+
+declare var fetch: any;
+declare var AbortController: any;
+
+class FetchTransport implements Transport.Transport {
+    public send(transportRequest: Transport.TransportRequest): Q.IPromise<Transport.TransportResponse> {
+        var controller = typeof AbortController !== 'undefined' ? new AbortController() : null,
+            init: any = {
+                method: transportRequest.method,
+                headers: transportRequest.headers,
+                body: transportRequest.body,
+                signal: controller ? controller.signal : undefined
+            };
+
+        Transport.onAbort(transportRequest.signal, () => controller && controller.abort());
+
+        return Q(fetch(transportRequest.url, init)).then((response: any) => {
+            var headers: Transport.Headers = {};
+
+            response.headers.forEach((value: string, name: string) => headers[name.toLowerCase()] = value);
+
+            return Q(response.text()).then((text: string) => <Transport.TransportResponse>{
+                status: response.status,
+                headers: headers,
+                body: Transport.parseBody(text),
+                text: text
+            });
+        });
+    }
+}
+
+export = FetchTransport;
@@ -0,0 +1,80 @@
+import Q = require('q');
+import _ = require('underscore');
+import Transport = require('./transport');
+import EventStore = require('../memory/store');
+import Evaluator = require('../memory/evaluator');
+
+class MemoryTransport implements Transport.Transport {
+    public store: EventStore;
+
+    constructor(store?: EventStore) {
+        this.store = store || new EventStore();
+    }
+
+    public send(transportRequest: Transport.TransportRequest): Q.IPromise<Transport.TransportResponse> {
+        var match = /\/events(?:\/([^?\/]+))?(?:\?(.*))?$/.exec(transportRequest.url),
+            collection = match && match[1] ? decodeURIComponent(match[1]) : null,
+            queryString = match ? match[2] : null;
+
+        if (transportRequest.signal && transportRequest.signal.aborted) {
+            return Q.reject<Transport.TransportResponse>(new Error('Request aborted'));
+        }
+
+        if (!match) {
+            return respond(404, { errorMessage: 'Not found.' });
+        }
+
+        try {
+            if (transportRequest.method === 'GET' && collection) {
+                return respond(200, Evaluator.evaluate(this.store.events(collection), parseQuery(queryString)));
+            }
+
+            if (transportRequest.method === 'POST' && collection) {
+                this.store.push(collection, JSON.parse(transportRequest.body));
+                return respond(200, {});
+            }
+
+            if (transportRequest.method === 'POST') {
+                return respond(200, this._pushBatch(JSON.parse(transportRequest.body)));
+            }
+        } catch(e) {
+            return respond(400, { errorMessage: e.message });
+        }
+
+        return respond(404, { errorMessage: 'Not found.' });
+    }
+
+    private _pushBatch(batch: any): any {
+        return _.object(_.map(_.keys(batch), collection => {
+            var results = _.map(batch[collection], event => {
+                this.store.push(collection, event);
+                return { success: true };
+            });
+
+            return [collection, results];
+        }));
+    }
+}
+
+function parseQuery(queryString: string): any {
+    var parameters = _.object(_.map((queryString || '').split('&'), pair => {
+        var separator = pair.indexOf('=');
+        return separator < 0 ? [pair, ''] : [pair.substring(0, separator), decodeURIComponent(pair.substring(separator + 1))];
+    }));
+
+    return parameters['query'] ? JSON.parse(parameters['query']) : {};
+}
+
+function respond(status: number, body: any): Q.IPromise<Transport.TransportResponse> {
+    var text = JSON.stringify(body),
+        headers: Transport.Headers = { 'content-type': 'application/json' };
+
+    return Q({
+        status: status,
+        headers: headers,
+        body: JSON.parse(text),
+        text: text
+    });
+}
+
+export = MemoryTransport;
@@ -0,0 +1,52 @@
+import http = require('http');
+import https = require('https');
+import url = require('url');
+import Q = require('q');
+import Transport = require('./transport');
+
+class NodeHttpTransport implements Transport.Transport {
+    private _agent: any;
+
+    constructor(options?: { agent?: any }) {
+        this._agent = options ? options.agent : undefined;
+    }
+
+    public send(transportRequest: Transport.TransportRequest): Q.IPromise<Transport.TransportResponse> {
+        var deferred = Q.defer<Transport.TransportResponse>(),
+            target = url.parse(transportRequest.url),
+            client: any = target.protocol === 'https:' ? https : http;
+
+        var pendingRequest = client.request({
+            method: transportRequest.method,
+            hostname: target.hostname,
+            port: target.port,
+            path: target.path,
+            headers: transportRequest.headers,
+            agent: this._agent
+        }, (res: http.ClientResponse) => {
+            var text = '';
+
+            res.setEncoding('utf8');
+            res.on('data', chunk => text += chunk);
+            res.on('end', () => deferred.resolve({
+                status: res.statusCode,
+                headers: <Transport.Headers>res.headers,
+                body: Transport.parseBody(text),
+                text: text
+            }));
+        });
+
+        pendingRequest.on('error', error => deferred.reject(error));
+        Transport.onAbort(transportRequest.signal, () => pendingRequest.abort());
+
+        if (transportRequest.body != null) {
+            pendingRequest.write(transportRequest.body);
+        }
+
+        pendingRequest.end();
+
+        return deferred.promise;
+    }
+}
+
+export = NodeHttpTransport;
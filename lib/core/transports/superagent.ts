@@ -0,0 +1,39 @@
+import request = require('superagent');
+import Q = require('q');
+import _ = require('underscore');
+import Transport = require('./transport');
+
+class SuperagentTransport implements Transport.Transport {
+    public send(transportRequest: Transport.TransportRequest): Q.IPromise<Transport.TransportResponse> {
+        var deferred = Q.defer<Transport.TransportResponse>(),
+            pendingRequest = request(transportRequest.method, transportRequest.url);
+
+        _.each(transportRequest.headers, (value: string, name: string) => pendingRequest.set(name, value));
+
+        if (transportRequest.body != null) {
+            pendingRequest.send(transportRequest.body);
+        }
+
+        pendingRequest.end((err: any, res: request.Response) => {
+            var response = res || (err ? err.response : null);
+
+            if (!response) {
+                deferred.reject(err);
+                return;
+            }
+
+            deferred.resolve({
+                status: response.status,
+                headers: response.header || {},
+                body: response.body != null && !_.isEmpty(response.body) ? response.body : Transport.parseBody(response.text),
+                text: response.text
+            });
+        });
+
+        Transport.onAbort(transportRequest.signal, () => pendingRequest.abort());
+
+        return deferred.promise;
+    }
+}
+
+export = SuperagentTransport;
@@ -0,0 +1,95 @@
+import Q = require('q');
+import _ = require('underscore');
+
+module Transport {
+    export interface Headers {
+        [name: string]: string;
+    }
+
+    export interface AbortSignal {
+        aborted: boolean;
+        addEventListener(type: string, listener: () => void): void;
+    }
+
+    export interface TransportRequest {
+        method: string;
+        url: string;
+        headers: Headers;
+        body?: string;
+        signal?: AbortSignal;
+    }
+
+    export interface TransportResponse {
+        status: number;
+        headers: Headers;
+        body: any;
+        text?: string;
+    }
+
+    export interface Transport {
+        send(request: TransportRequest): Q.IPromise<TransportResponse>;
+    }
+
+    export class AbortController {
+        public signal: AbortSignal;
+        private _listeners: Array<() => void>;
+
+        constructor() {
+            var listeners = this._listeners = [];
+
+            this.signal = {
+                aborted: false,
+                addEventListener: (type: string, listener: () => void) => {
+                    if (type === 'abort') {
+                        listeners.push(listener);
+                    }
+                }
+            };
+        }
+
+        public abort() {
+            if (this.signal.aborted) {
+                return;
+            }
+
+            this.signal.aborted = true;
+            _.each(this._listeners, listener => listener());
+            this._listeners = [];
+        }
+    }
+
+    export function onAbort(signal: AbortSignal, listener: () => void) {
+        if (!signal) {
+            return;
+        }
+
+        if (signal.aborted) {
+            listener();
+            return;
+        }
+
+        signal.addEventListener('abort', listener);
+    }
+
+    export function parseBody(text: string): any {
+        if (!text) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(text);
+        } catch(e) {
+            return text;
+        }
+    }
+
+    export function lowerCaseHeaders(headers: Headers): Headers {
+        var lowerCased: Headers = {};
+
+        _.each(_.keys(headers || {}), (name: string) => lowerCased[name.toLowerCase()] = headers[name]);
+
+        return lowerCased;
+    }
+}
+
+export = Transport;
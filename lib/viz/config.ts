@@ -1,3 +1,4 @@
+import Time = require('../core/time');
 
 module Config {
     export type ValueFormatter = (any) => string;
@@ -96,7 +97,7 @@ module Config {
         left?: number;
     }
 
-    export var defaultTimeSeriesFormats: IntervalFormats = {
+    export var defaultTimeSeriesFormats: Time.Intervals<string> = {
         minutely: 'HH:mm',
         hourly: 'HH:mm',
         daily: 'DD/MM',
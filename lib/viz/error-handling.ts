@@ -18,24 +18,49 @@ module ErrorHandling {
             icon: 'ion-wrench',
             defaultMessage: 'Unsupported Query'
         },
+        unauthorized: {
+            icon: 'ion-locked',
+            defaultMessage: 'Unauthorized'
+        },
+        invalidQuery: {
+            icon: 'ion-wrench',
+            defaultMessage: 'Invalid Query'
+        },
+        rateLimited: {
+            icon: 'ion-android-hand',
+            defaultMessage: 'Too Many Requests'
+        },
+        timeout: {
+            icon: 'ion-ios-clock-outline',
+            defaultMessage: 'Request Timed Out'
+        },
+        aborted: {
+            icon: 'ion-close-circled',
+            defaultMessage: 'Request Cancelled'
+        },
         other: {
             icon: 'ion-bug',
             defaultMessage: 'Error'
         }
     }
 
-    var statusErrorTypes = {
-        status404: 'noResults',
-        statusNetworkFailure: 'network',
-        status408: 'network',        
-        status502: 'network',
-        status503: 'network',
-        status504: 'network',
+    // Matched on the error name rather than with instanceof, the viz bundle has its own copy of the core classes.
+    var errorNameTypes = {
+        ConnectNotFoundError: 'noResults',
+        ConnectNetworkError: 'network',
+        ConnectAuthError: 'unauthorized',
+        ConnectQueryError: 'invalidQuery',
+        ConnectRateLimitError: 'rateLimited',
+        ConnectTimeoutError: 'timeout',
+        ConnectAbortError: 'aborted'
+    }
+
+    export function errorTypeFor(error: any): string {
+        return (error && errorNameTypes[error.name]) || 'other';
     }
 
     export function handleError(targetElement: HTMLElement, error: any){
-        var status = 'status' + error.status,
-            errorType = statusErrorTypes[status] || 'other';
+        var errorType = errorTypeFor(error);
 
         displayFriendlyError(targetElement, errorType);
     }
@@ -1,5 +1,7 @@
 import _ = require('underscore');
+import Q = require('q');
 import Queries = require('../core/queries/queries');
+import Subscription = require('../core/queries/subscription');
 import Api = require('../core/api');
 import Common = require('./visualization');
 import Loader = require('./loader');
@@ -22,8 +24,9 @@ class VizRenderer {
     private _rendered: boolean;
     private _destroyDom: () => void;
     private _resultHandler: ResultHandling.ResultHandler;
+    private _removeSubscriptionListener: () => void;
 
-    constructor(targetElement: string|HTMLElement, data: Queries.ConnectQuery|Api.QueryResultsFactory, 
+    constructor(targetElement: string|HTMLElement, data: Queries.ConnectQuery|Subscription.QuerySubscription|Api.QueryResultsFactory, 
         options: Config.VisualizationOptions, visualization: Common.Visualization) {
 
         this._targetElement = Dom.getElement(targetElement);
@@ -44,16 +47,15 @@ class VizRenderer {
         this._displayResults(false);
     }
 
-    public _displayResults(hasQueryUpdated: boolean) {
-        var resultsPromise = this._queryResultsFactory(),
-            canModifyPromise = this._visualization.modifyResults != null,
+    public _displayResults(hasQueryUpdated: boolean, resultsPromise: Q.IPromise<Api.QueryResults> = this._queryResultsFactory()) {
+        var canModifyPromise = this._visualization.modifyResults != null,
             modifiedResultsPromise = canModifyPromise ? this._visualization.modifyResults(resultsPromise) : resultsPromise;
 
         this._initDom();
         this._resultHandler.handleResult(this._visualization, this._resultsElement, modifiedResultsPromise, this._options, hasQueryUpdated);
     }
 
-    public update(data: Queries.ConnectQuery|Api.QueryResultsFactory) {
+    public update(data: Queries.ConnectQuery|Subscription.QuerySubscription|Api.QueryResultsFactory) {
         this._queryResultsFactory = this._getQueryResultsFactory(data);
 
         this._displayResults(true);
@@ -65,7 +67,7 @@ class VizRenderer {
     }
 
     public destroy() {
-        
+        this._stopListeningToSubscription();
         this._targetElement.removeChild(this._vizElement);
 
         if (this._visualization.destroy)
@@ -74,10 +76,40 @@ class VizRenderer {
         this._initDom = VizRenderer.prototype._initDom;
     }
 
-    private _getQueryResultsFactory(data: Queries.ConnectQuery|Api.QueryResultsFactory) : Api.QueryResultsFactory {
+    private _getQueryResultsFactory(data: Queries.ConnectQuery|Subscription.QuerySubscription|Api.QueryResultsFactory) : Api.QueryResultsFactory {
+        this._stopListeningToSubscription();
+
+        var subscription = <Subscription.QuerySubscription>data;
+
+        if (typeof subscription.addListener === 'function' && typeof subscription.latestResults === 'function') {
+            return this._listenToSubscription(subscription);
+        }
+
         return (<Queries.ConnectQuery>data).execute ? () => (<Queries.ConnectQuery>data).execute() : <Api.QueryResultsFactory>data
     }
 
+    private _listenToSubscription(subscription: Subscription.QuerySubscription): Api.QueryResultsFactory {
+        var isAwaitingFirstResults = !subscription.hasResults(),
+            isDisplayed = () => {
+                var wasAwaiting = isAwaitingFirstResults;
+                isAwaitingFirstResults = false;
+                return wasAwaiting;
+            };
+
+        this._removeSubscriptionListener = subscription.addListener(
+            () => isDisplayed() || this._displayResults(false),
+            error => isDisplayed() || this._displayResults(false, Q.reject<Api.QueryResults>(error)));
+
+        return () => subscription.latestResults();
+    }
+
+    private _stopListeningToSubscription() {
+        if (this._removeSubscriptionListener) {
+            this._removeSubscriptionListener();
+            this._removeSubscriptionListener = null;
+        }
+    }
+
     private _initDom() {            
         var options = this._options,
             vizElement = Dom.createElement('div', Classes.viz),
@@ -0,0 +1,571 @@
+import chai = require('chai');
+import sinon = require('sinon');
+import Api = require('../../lib/core/api');
+import Transport = require('../../lib/core/transports/transport');
+import Errors = require('../../lib/core/errors');
+import Middleware = require('../../lib/core/middleware');
+import Config = require('../../lib/core/config');
+import _ = require('underscore');
+
+var expect = chai.expect,
+	Q = require('Q');
+
+describe('Api', () => {
+	describe('Client', () => {
+		var requests: Array<{ request: Transport.TransportRequest, deferred: Q.Deferred<Transport.TransportResponse> }>,
+			transport: Transport.Transport,
+			client: Api.Client;
+
+		function respond(index: number, status: number, body: any, headers?: Transport.Headers) {
+			requests[index].deferred.resolve({ status: status, headers: headers || {}, body: body });
+		}
+
+		beforeEach(() => {
+			requests = [];
+			transport = {
+				send: request => {
+					var deferred = Q.defer();
+
+					requests.push({ request: request, deferred: deferred });
+					return deferred.promise;
+				}
+			};
+			client = new Api.Client('https://api.getconnect.io', 'project', 'key', { transport: transport });
+		});
+
+		describe('#push()', () => {
+			it('should post the event through the transport', () => {
+				client.push('purchases', { price: 10 });
+
+				expect(requests[0].request.method).to.equal('POST');
+				expect(requests[0].request.url).to.equal('https://api.getconnect.io/events/purchases');
+				expect(JSON.parse(requests[0].request.body)).to.deep.equal({ price: 10 });
+			});
+
+			it('should send the project id and api key', () => {
+				client.push('purchases', { price: 10 });
+
+				expect(requests[0].request.headers['X-Project-Id']).to.equal('project');
+				expect(requests[0].request.headers['X-Api-Key']).to.equal('key');
+			});
+
+			it('should reject with the status of failed responses', done => {
+				client.push('purchases', { price: 10 }).then(null, error => {
+					expect(error).to.be.an.instanceof(Errors.ConnectQueryError);
+					expect(error.status).to.equal(400);
+					expect(error.message).to.equal('Invalid event');
+					done();
+				});
+
+				respond(0, 400, { errorMessage: 'Invalid event' });
+			});
+
+			it('should flag transport failures as network failures', done => {
+				client.push('purchases', { price: 10 }).then(null, error => {
+					expect(error).to.be.an.instanceof(Errors.ConnectNetworkError);
+					expect(error.status).to.equal('NetworkFailure');
+					done();
+				});
+
+				requests[0].deferred.reject(new Error('socket hang up'));
+			});
+		});
+
+		describe('#query()', () => {
+			var query: Api.Query = { select: { count: 'count' } },
+				response = { metadata: { groups: [] }, results: [{ count: 10 }] };
+
+			it('should send the query in the url', () => {
+				client.query('purchases', query);
+
+				expect(requests[0].request.method).to.equal('GET');
+				expect(requests[0].request.url).to.equal('https://api.getconnect.io/events/purchases?query=' + encodeURIComponent(JSON.stringify(query)));
+			});
+
+			it('should resolve with query results', done => {
+				client.query('purchases', query).deferred.promise.then(results => {
+					expect(results).to.be.an.instanceof(Api.QueryResults);
+					expect(results.results).to.deep.equal(response.results);
+					done();
+				});
+
+				respond(0, 200, response);
+			});
+
+			it('should abort the request through the transport signal', () => {
+				client.query('purchases', query).request.abort();
+
+				expect(requests[0].request.signal.aborted).to.be.true;
+			});
+
+			it('should share one request between identical concurrent queries', done => {
+				var first = client.query('purchases', query),
+					second = client.query('purchases', query);
+
+				expect(requests).to.have.length(1);
+
+				Q.all([first.deferred.promise, second.deferred.promise]).then(results => {
+					expect(results[0].results).to.deep.equal(response.results);
+					expect(results[1].results).to.deep.equal(response.results);
+					expect(results[0]).to.not.equal(results[1]);
+					done();
+				});
+
+				respond(0, 200, response);
+			});
+
+			it('should not share requests between different queries', () => {
+				client.query('purchases', query);
+				client.query('visits', query);
+
+				expect(requests).to.have.length(2);
+			});
+
+			it('should send a new request once the previous one finished', done => {
+				client.query('purchases', query).deferred.promise.then(() => {
+					client.query('purchases', query);
+
+					expect(requests).to.have.length(2);
+					done();
+				});
+
+				respond(0, 200, response);
+			});
+
+			it('should keep the shared request running while other queries wait for it', () => {
+				var first = client.query('purchases', query);
+
+				client.query('purchases', query);
+				first.request.abort();
+
+				expect(requests[0].request.signal.aborted).to.be.false;
+			});
+
+			it('should queue queries beyond the concurrency limit', () => {
+				var limitedClient = new Api.Client('https://api.getconnect.io', 'project', 'key', { transport: transport, scheduler: { maxConcurrent: 1 } });
+
+				limitedClient.query('purchases', { select: { count: 'count' } });
+				limitedClient.query('visits', { select: { count: 'count' } }, { priority: 'high' });
+
+				expect(requests.length).to.equal(1);
+				expect(limitedClient.schedulerMetrics().queuedByPriority['high']).to.equal(1);
+			});
+
+			it('should not send queued queries that were aborted', done => {
+				var limitedClient = new Api.Client('https://api.getconnect.io', 'project', 'key', { transport: transport, scheduler: { maxConcurrent: 1 } }),
+					running = limitedClient.query('purchases', { select: { count: 'count' } }),
+					queued = limitedClient.query('visits', { select: { count: 'count' } });
+
+				queued.request.abort();
+				running.deferred.promise.then(() => {
+					expect(requests.length).to.equal(1);
+					expect(limitedClient.schedulerMetrics().aborted).to.equal(1);
+					done();
+				});
+
+				respond(0, 200, { metadata: { groups: [], interval: null, timezone: null }, results: [] });
+			});
+
+			it('should abort the shared request once every query has aborted', () => {
+				var first = client.query('purchases', query),
+					second = client.query('purchases', query);
+
+				first.request.abort();
+				second.request.abort();
+
+				expect(requests[0].request.signal.aborted).to.be.true;
+			});
+		});
+
+		describe('push and read keys', () => {
+			var query: Api.Query = { select: { count: 'count' } };
+
+			it('should send the push key with events and the read key with queries', () => {
+				var keyedClient = new Api.Client('https://api.getconnect.io', 'project', null, { transport: transport, pushKey: 'push', readKey: 'read' });
+
+				keyedClient.push('purchases', { price: 10 });
+				keyedClient.query('purchases', query);
+
+				expect(requests[0].request.headers['X-Api-Key']).to.equal('push');
+				expect(requests[1].request.headers['X-Api-Key']).to.equal('read');
+			});
+
+			it('should fall back to the api key when no specific key is configured', () => {
+				var keyedClient = new Api.Client('https://api.getconnect.io', 'project', 'key', { transport: transport, pushKey: 'push' });
+
+				keyedClient.query('purchases', query);
+
+				expect(requests[0].request.headers['X-Api-Key']).to.equal('key');
+			});
+
+			it('should refuse to run queries with only a push key', done => {
+				var keyedClient = new Api.Client('https://api.getconnect.io', 'project', null, { transport: transport, pushKey: 'push' });
+
+				keyedClient.query('purchases', query).deferred.promise.then(null, error => {
+					expect(error).to.be.an.instanceof(Errors.ConnectAuthError);
+					expect(error.status).to.equal('MissingKey');
+					expect(requests).to.have.length(0);
+					done();
+				});
+			});
+
+			it('should refuse to push events with only a read key', done => {
+				var keyedClient = new Api.Client('https://api.getconnect.io', 'project', null, { transport: transport, readKey: 'read' });
+
+				keyedClient.push('purchases', { price: 10 }).then(null, error => {
+					expect(error).to.be.an.instanceof(Errors.ConnectAuthError);
+					expect(requests).to.have.length(0);
+					done();
+				});
+			});
+		});
+
+		describe('middleware', () => {
+			function createClient(middleware: Middleware.Middleware[], options?: Api.ClientOptions) {
+				return new Api.Client('https://api.getconnect.io', 'project', 'key', _.extend({ transport: transport, middleware: middleware }, options));
+			}
+
+			it('should let request hooks change the url, headers and body in order', () => {
+				var middlewareClient = createClient([
+					{ onRequest: context => { context.headers['X-Correlation-Id'] = 'abc'; } },
+					{ onRequest: context => {
+						context.url += '?trace=' + context.headers['X-Correlation-Id'];
+						context.body = _.extend({ source: 'web' }, context.body);
+					} }
+				]);
+
+				middlewareClient.push('purchases', { price: 10 });
+
+				expect(requests[0].request.url).to.equal('https://api.getconnect.io/events/purchases?trace=abc');
+				expect(requests[0].request.headers['X-Correlation-Id']).to.equal('abc');
+				expect(JSON.parse(requests[0].request.body)).to.deep.equal({ source: 'web', price: 10 });
+			});
+
+			it('should call hooks on their middleware object', () => {
+				var tracing = {
+						prefix: 'abc',
+						onRequest: function(context: Middleware.RequestContext) { context.headers['X-Id'] = this.prefix; }
+					},
+					middlewareClient = createClient([tracing]);
+
+				middlewareClient.push('purchases', { price: 10 });
+
+				expect(requests[0].request.headers['X-Id']).to.equal('abc');
+			});
+
+			it('should wait for async request hooks', done => {
+				var token = Q.defer(),
+					middlewareClient = createClient([
+						{ onRequest: context => token.promise.then(value => { context.headers['Authorization'] = 'Bearer ' + value; }) }
+					]);
+
+				middlewareClient.query('purchases', { select: { count: 'count' } });
+				expect(requests).to.have.length(0);
+
+				token.resolve('fresh-token');
+				setTimeout(() => {
+					expect(requests[0].request.headers['Authorization']).to.equal('Bearer fresh-token');
+					done();
+				}, 0);
+			});
+
+			it('should let response hooks rewrite the response', done => {
+				var middlewareClient = createClient([
+					{ onResponse: context => { context.response.body.results = [{ count: 20 }]; } }
+				]);
+
+				middlewareClient.query('purchases', { select: { count: 'count' } }).deferred.promise.then(results => {
+					expect(results.results).to.deep.equal([{ count: 20 }]);
+					done();
+				});
+
+				respond(0, 200, { metadata: { groups: [] }, results: [{ count: 10 }] });
+			});
+
+			it('should call error hooks with the query and let them replace the error', done => {
+				var replacement = new Error('replaced'),
+					onError = sinon.spy((context: Middleware.ErrorContext) => { context.error = replacement; }),
+					middlewareClient = createClient([{ onError: onError }]);
+
+				middlewareClient.query('purchases', { select: { count: 'count' } }).deferred.promise.then(null, error => {
+					var context: Middleware.ErrorContext = onError.firstCall.args[0];
+
+					expect(error).to.equal(replacement);
+					expect(context.collection).to.equal('purchases');
+					expect(context.query).to.deep.equal({ select: { count: 'count' } });
+					expect(context.response.status).to.equal(500);
+					done();
+				});
+
+				respond(0, 500, { errorMessage: 'Failed' });
+			});
+
+			it('should run the hooks again for each retry', done => {
+				var onRequest = sinon.spy(),
+					middlewareClient = createClient([{ onRequest: onRequest }], { retry: { maxAttempts: 2, initialDelayMs: 0, jitter: false } });
+
+				middlewareClient.pushBatch({ purchases: [{ price: 10 }] }).then(() => {
+					expect(onRequest.callCount).to.equal(2);
+					expect(onRequest.secondCall.args[0].attempt).to.equal(2);
+					done();
+				});
+
+				respond(0, 503, {});
+				setTimeout(() => respond(1, 200, {}), 10);
+			});
+
+			it('should reject when a hook fails', done => {
+				var middlewareClient = createClient([
+					{ onRequest: () => Q.reject(new Error('token unavailable')) }
+				]);
+
+				middlewareClient.push('purchases', { price: 10 }).then(null, error => {
+					expect(error.message).to.equal('token unavailable');
+					expect(requests).to.have.length(0);
+					done();
+				});
+			});
+		});
+
+		describe('retries', () => {
+			var query: Api.Query = { select: { count: 'count' } },
+				response = { metadata: { groups: [] }, results: [{ count: 10 }] };
+
+			function createClient(retry: Config.RetryOptions) {
+				return new Api.Client('https://api.getconnect.io', 'project', 'key', { transport: transport, retry: retry });
+			}
+
+			it('should resend queries that fail with a retryable status', done => {
+				var retryingClient = createClient({ maxAttempts: 2, initialDelayMs: 0, jitter: false });
+
+				retryingClient.query('purchases', query).deferred.promise.then(results => {
+					expect(requests).to.have.length(2);
+					expect(requests[1].request.url).to.equal(requests[0].request.url);
+					expect(results.results).to.deep.equal([{ count: 10 }]);
+					done();
+				});
+
+				respond(0, 503, {});
+				setTimeout(() => respond(1, 200, response), 10);
+			});
+
+			it('should resend pushes after network failures', done => {
+				var retryingClient = createClient({ maxAttempts: 2, initialDelayMs: 0, jitter: false });
+
+				retryingClient.push('purchases', { price: 10 }).then(() => {
+					expect(requests).to.have.length(2);
+					expect(JSON.parse(requests[1].request.body)).to.deep.equal({ price: 10 });
+					done();
+				});
+
+				requests[0].deferred.reject(new Error('socket hang up'));
+				setTimeout(() => respond(1, 200, {}), 10);
+			});
+
+			it('should not resend statuses that are not retryable', done => {
+				var retryingClient = createClient({ maxAttempts: 2, initialDelayMs: 0, jitter: false });
+
+				retryingClient.query('purchases', query).deferred.promise.then(null, error => {
+					expect(error.status).to.equal(400);
+					expect(requests).to.have.length(1);
+					done();
+				});
+
+				respond(0, 400, { errorMessage: 'Invalid query' });
+			});
+
+			it('should reject with the last error once the attempts are used up', done => {
+				var retryingClient = createClient({ maxAttempts: 2, initialDelayMs: 0, jitter: false });
+
+				retryingClient.query('purchases', query).deferred.promise.then(null, error => {
+					expect(error.status).to.equal(502);
+					expect(requests).to.have.length(2);
+					done();
+				});
+
+				respond(0, 503, {});
+				setTimeout(() => respond(1, 502, {}), 10);
+			});
+
+			it('should wait for the Retry-After header before resending', done => {
+				var retryingClient = createClient({ maxAttempts: 2, initialDelayMs: 0, jitter: false });
+
+				retryingClient.query('purchases', query);
+				respond(0, 503, {}, { 'Retry-After': '0.05' });
+
+				setTimeout(() => expect(requests).to.have.length(1), 20);
+				setTimeout(() => {
+					expect(requests).to.have.length(2);
+					done();
+				}, 80);
+			});
+
+			it('should not resend once the request is aborted', done => {
+				var retryingClient = createClient({ maxAttempts: 3, initialDelayMs: 30, jitter: false }),
+					executeQuery = retryingClient.query('purchases', query);
+
+				respond(0, 503, {});
+
+				setTimeout(() => executeQuery.request.abort(), 10);
+				setTimeout(() => {
+					expect(requests).to.have.length(1);
+					done();
+				}, 60);
+			});
+		});
+
+		describe('instrumentation events', () => {
+			var query: Api.Query = { select: { count: 'count' } },
+				response = { metadata: { groups: [] }, results: [{ count: 10 }] };
+
+			it('should emit start and success events for queries', done => {
+				var onStart = sinon.spy();
+
+				client.on('query:start', onStart);
+				client.on('query:success', event => {
+					expect(onStart.firstCall.args[0].collection).to.equal('purchases');
+					expect(event.collection).to.equal('purchases');
+					expect(event.query).to.deep.equal(query);
+					expect(event.status).to.equal(200);
+					expect(event.responseSize).to.equal(24);
+					expect(event.durationMs).to.be.at.least(0);
+					expect(event.fromCache).to.be.false;
+					done();
+				});
+
+				client.query('purchases', query);
+				requests[0].deferred.resolve({ status: 200, headers: {}, body: response, text: JSON.stringify(response).slice(0, 24) });
+			});
+
+			it('should flag query results served from the cache', done => {
+				var cachingClient = new Api.Client('https://api.getconnect.io', 'project', 'key', { transport: transport, cache: { ttlMs: 60000 } }),
+					onSuccess = sinon.spy();
+
+				cachingClient.on('query:success', onSuccess);
+				cachingClient.query('purchases', query).deferred.promise.then(() => {
+					cachingClient.query('purchases', query);
+
+					expect(requests).to.have.length(1);
+					expect(onSuccess.callCount).to.equal(2);
+					expect(onSuccess.secondCall.args[0].fromCache).to.be.true;
+					expect(onSuccess.secondCall.args[0].responseSize).to.equal(JSON.stringify(response).length);
+					done();
+				});
+
+				respond(0, 200, response);
+			});
+
+			it('should emit error events with the status of failed queries', done => {
+				client.on('query:error', event => {
+					expect(event.status).to.equal(400);
+					expect(event.error).to.be.an.instanceof(Errors.ConnectQueryError);
+					done();
+				});
+
+				client.query('purchases', query);
+				respond(0, 400, { errorMessage: 'Invalid query' });
+			});
+
+			it('should emit an error event when a query is aborted', () => {
+				var onError = sinon.spy();
+
+				client.on('query:error', onError);
+				client.query('purchases', query).request.abort();
+
+				expect(onError.firstCall.args[0].status).to.equal('Aborted');
+			});
+
+			it('should emit push events with the pushed collections', done => {
+				var onSuccess = sinon.spy();
+
+				client.on('push:success', onSuccess);
+				client.on('push:error', event => {
+					expect(onSuccess.firstCall.args[0].collection).to.equal('purchases');
+					expect(event.collection).to.be.null;
+					expect(event.collections).to.deep.equal(['visits', 'clicks']);
+					expect(event.status).to.equal(400);
+					done();
+				});
+
+				client.push('purchases', { price: 10 });
+				client.pushBatch({ visits: [{}], clicks: [{}] });
+				respond(0, 200, {});
+				respond(1, 400, { errorMessage: 'Invalid event' });
+			});
+
+			it('should emit events for each query sharing a request', done => {
+				var onStart = sinon.spy(),
+					onSuccess = sinon.spy();
+
+				client.on('query:start', onStart);
+				client.on('query:success', onSuccess);
+
+				var first = client.query('purchases', query),
+					second = client.query('purchases', query);
+
+				Q.all([first.deferred.promise, second.deferred.promise]).then(() => {
+					expect(onStart.callCount).to.equal(2);
+					expect(onStart.secondCall.args[0].coalesced).to.be.true;
+					expect(onSuccess.callCount).to.equal(2);
+					expect(onSuccess.firstCall.args[0].coalesced).to.be.false;
+					expect(onSuccess.secondCall.args[0].coalesced).to.be.true;
+					expect(onSuccess.secondCall.args[0].status).to.equal(200);
+					done();
+				});
+
+				respond(0, 200, response);
+			});
+
+			it('should emit query errors when the read key is missing', () => {
+				var keyedClient = new Api.Client('https://api.getconnect.io', 'project', null, { transport: transport, pushKey: 'push' }),
+					onQueryError = sinon.spy();
+
+				keyedClient.on('query:error', onQueryError);
+				keyedClient.query('purchases', query).deferred.promise.then(null, () => {});
+
+				expect(onQueryError.firstCall.args[0].status).to.equal('MissingKey');
+				expect(onQueryError.firstCall.args[0].collection).to.equal('purchases');
+			});
+
+			it('should emit push errors when the push key is missing', () => {
+				var keyedClient = new Api.Client('https://api.getconnect.io', 'project', null, { transport: transport, readKey: 'read' }),
+					onPushError = sinon.spy();
+
+				keyedClient.on('push:error', onPushError);
+				keyedClient.pushBatch({ visits: [{}] }).then(null, () => {});
+
+				expect(onPushError.firstCall.args[0].status).to.equal('MissingKey');
+				expect(onPushError.firstCall.args[0].collections).to.deep.equal(['visits']);
+			});
+
+			it('should report client side query errors', () => {
+				var onStart = sinon.spy(),
+					onError = sinon.spy(),
+					error = new Errors.ConnectQueryError('Invalid', 'Invalid');
+
+				client.on('query:start', onStart);
+				client.on('query:error', onError);
+				client.reportQueryError('purchases', query, error);
+
+				expect(onStart.calledOnce).to.be.true;
+				expect(onError.firstCall.args[0].error).to.equal(error);
+				expect(onError.firstCall.args[0].status).to.equal('Invalid');
+				expect(requests).to.have.length(0);
+			});
+
+			it('should stop emitting to removed handlers', () => {
+				var onStart = sinon.spy(),
+					remove = client.on('query:start', onStart);
+
+				remove();
+				client.query('purchases', query);
+
+				expect(onStart.called).to.be.false;
+			});
+
+			it('should reject unknown events', () => {
+				expect(() => client.on('query:finish', () => {})).to.throw('Unknown event "query:finish"');
+			});
+		});
+	});
+});
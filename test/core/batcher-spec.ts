@@ -0,0 +1,120 @@
+import chai = require('chai');
+import sinon = require('sinon');
+import Batcher = require('../../lib/core/batcher');
+
+var expect = chai.expect,
+	Q = require('Q');
+
+describe('Batcher', () => {
+	describe('EventBatcher', () => {
+		var pushBatch: SinonStub,
+			sendBeacon: SinonStub,
+			batcher: Batcher.EventBatcher;
+
+		beforeEach(() => {
+			pushBatch = sinon.stub().returns(Q({}));
+			sendBeacon = sinon.stub().returns(true);
+			batcher = new Batcher.EventBatcher({ maxBatchSize: 3, flushIntervalMs: 10000 }, pushBatch, sendBeacon);
+		});
+
+		afterEach(() => {
+			batcher.flush();
+		});
+
+		describe('#add()', () => {
+			it('should buffer events until flushed', () => {
+				batcher.add('purchases', { price: 1 });
+
+				expect(pushBatch.called).to.be.false;
+				expect(batcher.pendingCount()).to.equal(1);
+			});
+
+			it('should flush once the batch size is reached', () => {
+				batcher.add('purchases', { price: 1 });
+				batcher.add('visits', { page: '/' });
+				batcher.add('purchases', { price: 2 });
+
+				expect(pushBatch.calledOnce).to.be.true;
+				expect(pushBatch.firstCall.args[0]).to.deep.equal({
+					purchases: [{ price: 1 }, { price: 2 }],
+					visits: [{ page: '/' }]
+				});
+			});
+
+			it('should resolve each event with its own result', done => {
+				pushBatch.returns(Q({ purchases: [{ success: true }, { success: false }] }));
+
+				var first = batcher.add('purchases', { price: 1 }),
+					second = batcher.add('purchases', { price: 2 });
+
+				batcher.flush();
+
+				Q.all([first, second]).then(results => {
+					expect(results).to.deep.equal([{ success: true }, { success: false }]);
+					done();
+				});
+			});
+
+			it('should reject every event when the batch fails', done => {
+				var error = { status: 500 };
+
+				pushBatch.returns(Q.reject(error));
+
+				batcher.add('purchases', { price: 1 }).then(null, reason => {
+					expect(reason).to.equal(error);
+					done();
+				});
+
+				batcher.flush();
+			});
+		});
+
+		describe('#flushWithBeacon()', () => {
+			var beaconBatcher: Batcher.EventBatcher;
+
+			beforeEach(() => {
+				beaconBatcher = new Batcher.EventBatcher({ maxBatchSize: 3, flushIntervalMs: 10000, useBeacon: true }, pushBatch, sendBeacon);
+			});
+
+			afterEach(() => {
+				beaconBatcher.flush();
+			});
+
+			it('should send buffered events with a beacon', () => {
+				beaconBatcher.add('purchases', { price: 1 }).then(null, () => {});
+				beaconBatcher.flushWithBeacon();
+
+				expect(sendBeacon.calledOnce).to.be.true;
+				expect(sendBeacon.firstCall.args[0]).to.deep.equal({ purchases: [{ price: 1 }] });
+				expect(pushBatch.called).to.be.false;
+				expect(beaconBatcher.pendingCount()).to.equal(0);
+			});
+
+			it('should not resolve beacon events as delivered', done => {
+				beaconBatcher.add('purchases', { price: 1 }).then(null, error => {
+					expect(error.status).to.equal('Unconfirmed');
+					done();
+				});
+
+				beaconBatcher.flushWithBeacon();
+			});
+
+			it('should fall back to a normal push when the beacon is refused', () => {
+				sendBeacon.returns(false);
+
+				beaconBatcher.add('purchases', { price: 1 });
+				beaconBatcher.flushWithBeacon();
+
+				expect(pushBatch.calledOnce).to.be.true;
+			});
+
+			it('should push normally unless beacons are enabled', () => {
+				batcher.add('purchases', { price: 1 });
+				batcher.flushWithBeacon();
+
+				expect(sendBeacon.called).to.be.false;
+				expect(pushBatch.calledOnce).to.be.true;
+			});
+		});
+	});
+});
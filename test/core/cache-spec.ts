@@ -0,0 +1,71 @@
+import chai = require('chai');
+import Cache = require('../../lib/core/cache');
+
+var expect = chai.expect;
+
+describe('Cache', () => {
+	describe('QueryCache', () => {
+		describe('#resolvePolicy()', () => {
+			it('should not cache when no cache has been configured', () => {
+				var cache = new Cache.QueryCache();
+
+				expect(cache.resolvePolicy(null)).to.be.null;
+			});
+
+			it('should use the configured policy by default', () => {
+				var cache = new Cache.QueryCache({ ttlMs: 5000 });
+
+				expect(cache.resolvePolicy(null).ttlMs).to.equal(5000);
+			});
+
+			it('should let a query override the ttl', () => {
+				var cache = new Cache.QueryCache({ ttlMs: 5000 });
+
+				expect(cache.resolvePolicy({ ttlMs: 100 }).ttlMs).to.equal(100);
+			});
+
+			it('should let a query enable caching without configuration', () => {
+				var cache = new Cache.QueryCache();
+
+				expect(cache.resolvePolicy({ ttlMs: 100 }).ttlMs).to.equal(100);
+			});
+
+			it('should be bypassed when a query disables it', () => {
+				var cache = new Cache.QueryCache({ ttlMs: 5000 });
+
+				expect(cache.resolvePolicy(false)).to.be.null;
+			});
+		});
+
+		describe('#get()', () => {
+			var cache = new Cache.QueryCache({ ttlMs: 5000 }),
+				key = Cache.buildKey('purchases', { select: { count: 'count' } });
+
+			it('should return a copy of the stored response', () => {
+				var response = { metadata: { groups: [] }, results: [{ count: 1 }] };
+
+				cache.set(key, response);
+				response.results[0].count = 2;
+
+				expect(cache.get(key).response.results[0].count).to.equal(1);
+			});
+
+			it('should return null for unknown keys', () => {
+				expect(cache.get('unknown')).to.be.null;
+			});
+		});
+
+		describe('#isFresh()', () => {
+			var cache = new Cache.QueryCache({ ttlMs: 5000 }),
+				policy = cache.resolvePolicy(null);
+
+			it('should be fresh within the ttl', () => {
+				expect(cache.isFresh({ response: null, storedAt: Date.now() - 1000 }, policy)).to.be.true;
+			});
+
+			it('should be stale after the ttl', () => {
+				expect(cache.isFresh({ response: null, storedAt: Date.now() - 6000 }, policy)).to.be.false;
+			});
+		});
+	});
+});
@@ -35,4 +35,67 @@ describe('Connect', () => {
 			expect(query._collection).to.be.equal(collection);
 		});
 	});
+
+    describe('with an offline queue', () => {
+        it('should not queue events that can never be pushed', done => {
+            var readOnlyConnect = new Connect({
+                projectId: 'abc',
+                readKey: 'read',
+                offlineQueue: { storage: 'memory' }
+            });
+
+            readOnlyConnect.push('purchases', { price: 10 }).then(null, error => {
+                expect(error.status).to.equal('MissingKey');
+                expect(readOnlyConnect.pendingEvents()).to.equal(0);
+                done();
+            });
+        });
+    });
+
+    describe('with the memory backend', () => {
+        var memoryConnect: Connect;
+
+        beforeEach(() => {
+            memoryConnect = new Connect({
+                apiKey: 'abc',
+                projectId: 'abc',
+                backend: 'memory'
+            });
+        });
+
+        it('should query pushed events', done => {
+            memoryConnect.push('purchases', [{ product: 'roses', price: 10 }, { product: 'tulips', price: 5 }])
+                .then(() => memoryConnect.query('purchases').select({ total: { sum: 'price' } }).execute())
+                .then(results => {
+                    expect(results.results).to.deep.equal([{ total: 15 }]);
+                    done();
+                });
+        });
+
+        it('should not require keys', done => {
+            var keylessConnect = new Connect({ projectId: 'abc', backend: 'memory' });
+
+            keylessConnect.push('purchases', { price: 10 })
+                .then(() => keylessConnect.query('purchases').select({ total: { sum: 'price' } }).execute())
+                .then(results => {
+                    expect(results.results).to.deep.equal([{ total: 10 }]);
+                    done();
+                });
+        });
+
+        it('should emit instrumentation events for pushes and queries', done => {
+            var events: string[] = [];
+
+            memoryConnect.on('push:success', event => events.push('push:success ' + event.collection));
+            memoryConnect.on('query:start', event => events.push('query:start ' + event.collection));
+            memoryConnect.on('query:success', event => events.push('query:success ' + event.status));
+
+            memoryConnect.push('purchases', { product: 'roses', price: 10 })
+                .then(() => memoryConnect.query('purchases').select({ total: { sum: 'price' } }).execute())
+                .then(() => {
+                    expect(events).to.deep.equal(['push:success purchases', 'query:start purchases', 'query:success 200']);
+                    done();
+                });
+        });
+    });
 });
\ No newline at end of file
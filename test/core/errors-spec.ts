@@ -0,0 +1,76 @@
+import chai = require('chai');
+import data_driven = require('mocha-data-driven');
+import Api = require('../../lib/core/api');
+import Errors = require('../../lib/core/errors');
+
+var expect = chai.expect;
+
+describe('Errors', () => {
+	describe('#fromResponse()', () => {
+		var url = 'https://api.getconnect.io/events/purchases',
+			query: Api.Query = { select: { count: 'count' } };
+
+		data_driven([
+			{ status: 400, errorClass: Errors.ConnectQueryError, name: 'ConnectQueryError' },
+			{ status: 401, errorClass: Errors.ConnectAuthError, name: 'ConnectAuthError' },
+			{ status: 403, errorClass: Errors.ConnectAuthError, name: 'ConnectAuthError' },
+			{ status: 404, errorClass: Errors.ConnectNotFoundError, name: 'ConnectNotFoundError' },
+			{ status: 429, errorClass: Errors.ConnectRateLimitError, name: 'ConnectRateLimitError' },
+			{ status: 500, errorClass: Errors.ConnectServerError, name: 'ConnectServerError' },
+			{ status: 503, errorClass: Errors.ConnectNetworkError, name: 'ConnectNetworkError' }
+		], () => {
+			it('should map status {status} to {name}', ctx => {
+				var error = Errors.fromResponse(ctx.status, null, null, 'GET', url, query);
+
+				expect(error).to.be.an.instanceof(ctx.errorClass);
+				expect(error).to.be.an.instanceof(Errors.ConnectError);
+				expect(error).to.be.an.instanceof(Error);
+				expect(error.name).to.equal(ctx.name);
+			});
+
+			it('should carry the status, url and query for {status}', ctx => {
+				var error = Errors.fromResponse(ctx.status, null, null, 'GET', url, query);
+
+				expect(error.status).to.equal(ctx.status);
+				expect(error.url).to.equal(url);
+				expect(error.query).to.equal(query);
+			});
+		});
+
+		it('should parse the server validation message', () => {
+			var error = Errors.fromResponse(400, { errorMessage: 'The select "total" is invalid.' }, null, 'GET', url, query);
+
+			expect(error.message).to.equal('The select "total" is invalid.');
+		});
+
+		it('should keep the server validation errors', () => {
+			var errors = [{ field: 'select.total', description: 'Unknown aggregation.' }],
+				error = <Errors.ConnectQueryError>Errors.fromResponse(400, { errors: errors }, null, 'GET', url, query);
+
+			expect(error.message).to.equal('Unknown aggregation.');
+			expect(error.errors).to.deep.equal(errors);
+		});
+
+		it('should keep the Retry-After of rate limited requests', () => {
+			var error = <Errors.ConnectRateLimitError>Errors.fromResponse(429, null, null, 'GET', url, query, '30');
+
+			expect(error.retryAfter).to.equal('30');
+		});
+	});
+
+	describe('ConnectAbortError', () => {
+		it('should be a ConnectError', () => {
+			expect(new Errors.ConnectAbortError()).to.be.an.instanceof(Errors.ConnectError);
+		});
+	});
+
+	describe('ConnectTimeoutError', () => {
+		it('should be a ConnectAbortError with a timeout status', () => {
+			var error = new Errors.ConnectTimeoutError(5000);
+
+			expect(error).to.be.an.instanceof(Errors.ConnectAbortError);
+			expect(error.status).to.equal('Timeout');
+			expect(error.message).to.equal('request timed out after 5000ms');
+		});
+	});
+});
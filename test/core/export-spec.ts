@@ -0,0 +1,91 @@
+import chai = require('chai');
+import Api = require('../../lib/core/api');
+import Export = require('../../lib/core/export');
+
+var expect = chai.expect;
+
+describe('Export', () => {
+	var grouped: Api.QueryResults,
+		intervals: Api.QueryResults;
+
+	beforeEach(() => {
+		grouped = new Api.QueryResults({
+			metadata: { groups: ['product'], interval: null, timezone: null },
+			results: [
+				{ product: 'roses, red', total: 30.5 },
+				{ product: 'say "tulips"', total: null }
+			]
+		});
+
+		intervals = new Api.QueryResults({
+			metadata: { groups: [], interval: 'daily', timezone: 'Australia/Brisbane' },
+			results: [
+				{ interval: { start: '2015-06-14T14:00:00Z', end: '2015-06-15T14:00:00Z' }, results: [{ total: 5 }] },
+				{ interval: { start: '2015-06-15T14:00:00Z', end: '2015-06-16T14:00:00Z' }, results: [{ total: 7 }] }
+			]
+		});
+	});
+
+	describe('#toCSV()', () => {
+		it('should escape delimiters and quotes', () => {
+			expect(grouped.toCSV()).to.equal(
+				'product,total\r\n' +
+				'"roses, red",30.5\r\n' +
+				'"say ""tulips""",\r\n');
+		});
+
+		it('should add interval columns in the results timezone', () => {
+			expect(intervals.toCSV()).to.equal(
+				'intervalStart,intervalEnd,total\r\n' +
+				'2015-06-15T00:00:00+10:00,2015-06-16T00:00:00+10:00,5\r\n' +
+				'2015-06-16T00:00:00+10:00,2015-06-17T00:00:00+10:00,7\r\n');
+		});
+
+		it('should use field labels and format functions', () => {
+			var csv = grouped.toCSV({
+				header: true,
+				fields: {
+					product: { label: 'Product' },
+					total: { label: 'Total ($)', format: value => value == null ? 'n/a' : '$' + value.toFixed(2) }
+				}
+			});
+
+			expect(csv.split('\r\n')[0]).to.equal('Product,Total ($)');
+			expect(csv.split('\r\n')[2]).to.equal('"say ""tulips""",n/a');
+		});
+
+		it('should reject format strings', () => {
+			var fields: any = { total: { format: '$,.2f' } };
+
+			expect(() => grouped.toCSV({ fields: fields })).to.throw('The format of the "total" field must be a function.');
+		});
+
+		it('should leave out the header when asked', () => {
+			expect(intervals.toCSV({ header: false, timezone: 'UTC' }).split('\r\n')[0]).to.equal('2015-06-14T14:00:00Z,2015-06-15T14:00:00Z,5');
+		});
+	});
+
+	describe('#toTSV()', () => {
+		it('should separate values with tabs', () => {
+			expect(grouped.toTSV().split('\r\n')[1]).to.equal('roses, red\t30.5');
+		});
+	});
+
+	describe('#toNDJSON()', () => {
+		it('should write one object per row', () => {
+			expect(grouped.toNDJSON()).to.equal(
+				'{"product":"roses, red","total":30.5}\n' +
+				'{"product":"say \\"tulips\\"","total":null}\n');
+		});
+	});
+
+	describe('#download()', () => {
+		it('should not download outside the browser', () => {
+			expect(Export.download('a,b', 'results.csv')).to.be.false;
+		});
+
+		it('should reject unknown formats', () => {
+			expect(() => grouped.download('results.xls', 'xls')).to.throw(Error);
+		});
+	});
+});
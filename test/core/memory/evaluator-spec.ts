@@ -0,0 +1,125 @@
+import chai = require('chai');
+import Api = require('../../../lib/core/api');
+import Evaluator = require('../../../lib/core/memory/evaluator');
+
+var expect = chai.expect;
+
+describe('Evaluator', () => {
+	describe('#evaluate()', () => {
+		var now = new Date('2015-06-15T12:00:00Z'),
+			events = [
+				{ product: 'roses', country: 'AU', price: 10, timestamp: '2015-06-15T01:00:00Z' },
+				{ product: 'roses', country: 'US', price: 20, timestamp: '2015-06-15T02:00:00Z' },
+				{ product: 'tulips', country: 'AU', price: 5, timestamp: '2015-06-14T10:00:00Z' },
+				{ product: 'lilies', country: 'NZ', timestamp: '2015-06-01T10:00:00Z' }
+			];
+
+		function evaluate(query: Api.Query) {
+			return Evaluator.evaluate(events, query, now);
+		}
+
+		it('should aggregate every select', () => {
+			var response = evaluate({
+				select: {
+					count: 'count',
+					total: { sum: 'price' },
+					average: { avg: 'price' },
+					cheapest: { min: 'price' },
+					dearest: { max: 'price' }
+				}
+			});
+
+			expect(response.results).to.deep.equal([{ count: 4, total: 35, average: 35 / 3, cheapest: 5, dearest: 20 }]);
+		});
+
+		it('should return metadata for the query', () => {
+			var response = evaluate({ select: { count: 'count' }, groupBy: ['product'], interval: 'daily', timezone: 'UTC' });
+
+			expect(response.metadata).to.deep.equal({ groups: ['product'], interval: 'daily', timezone: 'UTC' });
+		});
+
+		it('should group results', () => {
+			var response = evaluate({ select: { total: { sum: 'price' } }, groupBy: ['product'] });
+
+			expect(response.results).to.deep.equal([
+				{ product: 'roses', total: 30 },
+				{ product: 'tulips', total: 5 },
+				{ product: 'lilies', total: 0 }
+			]);
+		});
+
+		it('should apply filters', () => {
+			var response = evaluate({
+				select: { count: 'count' },
+				filter: {
+					country: { in: ['AU', 'US'] },
+					price: { gte: 10 },
+					product: { startsWith: 'ro' }
+				}
+			});
+
+			expect(response.results[0]['count']).to.equal(2);
+		});
+
+		it('should apply the exists filter', () => {
+			var response = evaluate({ select: { count: 'count' }, filter: { price: { exists: false } } });
+
+			expect(response.results[0]['count']).to.equal(1);
+		});
+
+		it('should apply composite filters', () => {
+			var response = evaluate({
+				select: { count: 'count' },
+				filter: {
+					$or: [{ country: { eq: 'US' } }, { product: { eq: 'tulips' } }],
+					$not: { price: { lt: 10 } }
+				}
+			});
+
+			expect(response.results[0]['count']).to.equal(1);
+		});
+
+		it('should apply an absolute timeframe', () => {
+			var response = evaluate({ select: { count: 'count' }, timeframe: { start: '2015-06-14T00:00:00Z', end: '2015-06-15T00:00:00Z' } });
+
+			expect(response.results[0]['count']).to.equal(1);
+		});
+
+		it('should apply a relative timeframe', () => {
+			var response = evaluate({ select: { count: 'count' }, timeframe: { previous: { days: 1 } } });
+
+			expect(response.results[0]['count']).to.equal(1);
+		});
+
+		it('should apply a named timeframe', () => {
+			var response = evaluate({ select: { count: 'count' }, timeframe: 'today' });
+
+			expect(response.results[0]['count']).to.equal(2);
+		});
+
+		it('should bucket results into intervals', () => {
+			var response = evaluate({ select: { count: 'count' }, timeframe: { current: { days: 2 } }, interval: 'daily' });
+
+			expect(response.results).to.deep.equal([
+				{ interval: { start: '2015-06-14T00:00:00.000Z', end: '2015-06-15T00:00:00.000Z' }, results: [{ count: 1 }] },
+				{ interval: { start: '2015-06-15T00:00:00.000Z', end: '2015-06-16T00:00:00.000Z' }, results: [{ count: 2 }] }
+			]);
+		});
+
+		it('should bucket intervals in the query timezone', () => {
+			var response = evaluate({ select: { count: 'count' }, timeframe: { current: { days: 2 } }, interval: 'daily', timezone: 'Australia/Brisbane' });
+
+			expect(response.results[0].interval.start).to.equal('2015-06-13T14:00:00.000Z');
+			expect(response.results[1].interval.start).to.equal('2015-06-14T14:00:00.000Z');
+			expect(response.results[1].results[0]['count']).to.equal(2);
+		});
+
+		it('should reject unknown aggregations', () => {
+			expect(() => evaluate({ select: { total: { summ: 'price' } } })).to.throw(Error);
+		});
+
+		it('should reject unknown filter operators', () => {
+			expect(() => evaluate({ select: { count: 'count' }, filter: { price: { greater: 10 } } })).to.throw(Error);
+		});
+	});
+});
@@ -0,0 +1,112 @@
+import chai = require('chai');
+import OfflineQueue = require('../../lib/core/offline-queue');
+
+var expect = chai.expect,
+	Q = require('Q');
+
+describe('OfflineQueue', () => {
+	describe('EventQueue', () => {
+		var queue: OfflineQueue.EventQueue;
+
+		beforeEach(() => {
+			queue = new OfflineQueue.EventQueue({ storage: 'memory', maxEvents: 3 });
+		});
+
+		describe('#enqueue()', () => {
+			it('should count every queued event', () => {
+				queue.enqueue({ purchases: [{ price: 1 }, { price: 2 }], visits: [{ page: '/' }] });
+
+				expect(queue.pendingCount()).to.equal(3);
+			});
+
+			it('should evict the oldest events when full', done => {
+				var pushedBatch;
+
+				queue.enqueue({ purchases: [{ price: 1 }, { price: 2 }] });
+				queue.enqueue({ purchases: [{ price: 3 }, { price: 4 }] });
+
+				queue.replay(batch => {
+					pushedBatch = batch;
+					return Q({});
+				}).then(() => {
+					expect(pushedBatch).to.deep.equal({ purchases: [{ price: 2 }, { price: 3 }, { price: 4 }] });
+					done();
+				});
+			});
+		});
+
+		describe('#replay()', () => {
+			it('should remove events once pushed', done => {
+				queue.enqueue({ purchases: [{ price: 1 }] });
+
+				queue.replay(batch => Q({})).then(replayed => {
+					expect(replayed).to.equal(1);
+					expect(queue.pendingCount()).to.equal(0);
+					done();
+				});
+			});
+
+			it('should keep events when the network is still unavailable', done => {
+				queue.enqueue({ purchases: [{ price: 1 }] });
+
+				queue.replay(batch => Q.reject({ status: 'NetworkFailure' })).then(replayed => {
+					expect(replayed).to.equal(0);
+					expect(queue.pendingCount()).to.equal(1);
+					done();
+				});
+			});
+
+			it('should keep events when rate limited', done => {
+				queue.enqueue({ purchases: [{ price: 1 }] });
+
+				queue.replay(batch => Q.reject({ status: 429 })).then(replayed => {
+					expect(replayed).to.equal(0);
+					expect(queue.pendingCount()).to.equal(1);
+					done();
+				});
+			});
+
+			it('should keep events when the server fails', done => {
+				queue.enqueue({ purchases: [{ price: 1 }] });
+
+				queue.replay(batch => Q.reject({ status: 500 })).then(replayed => {
+					expect(replayed).to.equal(0);
+					expect(queue.pendingCount()).to.equal(1);
+					done();
+				});
+			});
+
+			it('should drop events the server rejects', done => {
+				queue.enqueue({ purchases: [{ price: 1 }] });
+
+				queue.replay(batch => Q.reject({ status: 400 })).then(() => {
+					expect(queue.pendingCount()).to.equal(0);
+					done();
+				});
+			});
+		});
+	});
+
+	describe('#isTransientError()', () => {
+		it('should treat network failures, rate limits and server errors as transient', () => {
+			expect(OfflineQueue.isTransientError({ status: 'NetworkFailure' })).to.be.true;
+			expect(OfflineQueue.isTransientError({ status: 408 })).to.be.true;
+			expect(OfflineQueue.isTransientError({ status: 429 })).to.be.true;
+			expect(OfflineQueue.isTransientError({ status: 500 })).to.be.true;
+			expect(OfflineQueue.isTransientError({ status: 503 })).to.be.true;
+		});
+
+		it('should not treat client errors as transient', () => {
+			expect(OfflineQueue.isTransientError({ status: 400 })).to.be.false;
+			expect(OfflineQueue.isTransientError({ status: 413 })).to.be.false;
+		});
+
+		it('should not treat client side failures as transient', () => {
+			expect(OfflineQueue.isTransientError({ status: 'MissingKey' })).to.be.false;
+			expect(OfflineQueue.isTransientError({ status: 'Aborted' })).to.be.false;
+			expect(OfflineQueue.isTransientError({ status: 'Timeout' })).to.be.false;
+			expect(OfflineQueue.isTransientError({ status: 'Invalid' })).to.be.false;
+			expect(OfflineQueue.isTransientError(new Error('boom'))).to.be.false;
+		});
+	});
+});
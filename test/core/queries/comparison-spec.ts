@@ -0,0 +1,138 @@
+import chai = require('chai');
+import sinon = require('sinon');
+import Api = require('../../../lib/core/api');
+import Comparison = require('../../../lib/core/queries/comparison');
+
+var expect = chai.expect,
+	Q = require('Q');
+
+describe('Comparison', () => {
+	function groupedResults(results: Api.QueryResultItem[]) {
+		return new Api.QueryResults({ metadata: { groups: ['product'], interval: null, timezone: null }, results: results });
+	}
+
+	function intervalResults(start: string, values: number[]) {
+		return new Api.QueryResults({
+			metadata: { groups: [], interval: 'daily', timezone: null },
+			results: values.map((value, index) => {
+				var intervalStart = new Date(new Date(start).getTime() + index * 86400000);
+
+				return {
+					interval: { start: intervalStart.toISOString(), end: new Date(intervalStart.getTime() + 86400000).toISOString() },
+					results: [{ total: value }]
+				};
+			})
+		});
+	}
+
+	describe('#compare()', () => {
+		it('should align results by group values', () => {
+			var current = groupedResults([{ product: 'roses', total: 30 }, { product: 'tulips', total: 10 }]),
+				previous = groupedResults([{ product: 'tulips', total: 20 }, { product: 'roses', total: 20 }]);
+
+			expect(Comparison.compare(current, previous)).to.deep.equal([
+				{ groups: { product: 'roses' }, values: { total: { current: 30, previous: 20, delta: 10, percentChange: 50 } } },
+				{ groups: { product: 'tulips' }, values: { total: { current: 10, previous: 20, delta: -10, percentChange: -50 } } }
+			]);
+		});
+
+		it('should include groups missing from one of the periods', () => {
+			var current = groupedResults([{ product: 'roses', total: 30 }]),
+				previous = groupedResults([{ product: 'lilies', total: 5 }]);
+
+			expect(Comparison.compare(current, previous)[1]).to.deep.equal({
+				groups: { product: 'lilies' },
+				values: { total: { current: null, previous: 5, delta: null, percentChange: null } }
+			});
+		});
+
+		it('should not calculate a percent change from zero', () => {
+			var current = groupedResults([{ product: 'roses', total: 30 }]),
+				previous = groupedResults([{ product: 'roses', total: 0 }]);
+
+			expect(Comparison.compare(current, previous)[0].values['total'].percentChange).to.be.null;
+		});
+
+		it('should align intervals by their offset', () => {
+			var current = intervalResults('2015-06-08T00:00:00Z', [10, 12]),
+				previous = intervalResults('2015-06-01T00:00:00Z', [5, 12]),
+				comparisons = Comparison.compare(current, previous);
+
+			expect(comparisons).to.have.length(2);
+			expect(comparisons[1].interval.start).to.deep.equal(new Date('2015-06-09T00:00:00Z'));
+			expect(comparisons[1].previousInterval.start).to.deep.equal(new Date('2015-06-02T00:00:00Z'));
+			expect(comparisons[0].values['total']).to.deep.equal({ current: 10, previous: 5, delta: 5, percentChange: 100 });
+		});
+
+		it('should align intervals around empty buckets', () => {
+			var current = intervalResults('2015-06-08T00:00:00Z', [10, 0, 12]),
+				previous = intervalResults('2015-06-01T00:00:00Z', [5, 6, 7]);
+
+			current.results.splice(1, 1);
+
+			var comparisons = Comparison.compare(current, previous);
+
+			expect(comparisons).to.have.length(3);
+			expect(comparisons[1].interval).to.be.null;
+			expect(comparisons[1].values['total']).to.deep.equal({ current: null, previous: 6, delta: null, percentChange: null });
+			expect(comparisons[2].interval.start).to.deep.equal(new Date('2015-06-10T00:00:00Z'));
+			expect(comparisons[2].previousInterval.start).to.deep.equal(new Date('2015-06-03T00:00:00Z'));
+		});
+
+		it('should align intervals from the start of each timeframe', () => {
+			var current = intervalResults('2015-06-09T00:00:00Z', [12]),
+				previous = intervalResults('2015-06-01T00:00:00Z', [5, 6]),
+				comparisons = Comparison.compare(current, previous, new Date('2015-06-08T00:00:00Z'), new Date('2015-06-01T00:00:00Z'));
+
+			expect(comparisons).to.have.length(2);
+			expect(comparisons[1].interval.start).to.deep.equal(new Date('2015-06-09T00:00:00Z'));
+			expect(comparisons[1].previousInterval.start).to.deep.equal(new Date('2015-06-02T00:00:00Z'));
+		});
+	});
+
+	describe('ComparisonQuery', () => {
+		var query: any,
+			previousQuery: any,
+			current = groupedResults([{ product: 'roses', total: 30 }]),
+			previous = groupedResults([{ product: 'roses', total: 20 }]);
+
+		beforeEach(() => {
+			previousQuery = { execute: sinon.stub().returns(Q(previous)), abort: sinon.spy() };
+			query = {
+				_timeframe: { previous: { days: 7 } },
+				_timezone: 'UTC',
+				timeframe: sinon.stub().returns(previousQuery),
+				execute: sinon.stub().returns(Q(current)),
+				abort: sinon.spy()
+			};
+		});
+
+		it('should execute the query and the shifted query', done => {
+			new Comparison.ComparisonQuery(query, 'previous_period').execute().then(results => {
+				expect(results).to.be.an.instanceof(Api.QueryResults);
+				expect(results.results).to.deep.equal(current.results);
+				expect(results.previous).to.equal(previous);
+				expect(results.comparisons[0].values['total'].delta).to.equal(10);
+				done();
+			});
+		});
+
+		it('should compare against an explicit timeframe', () => {
+			var timeframe = { start: '2015-01-01', end: '2015-02-01' };
+
+			new Comparison.ComparisonQuery(query, timeframe).execute();
+
+			expect(query.timeframe.calledWith(timeframe)).to.be.true;
+		});
+
+		it('should abort both queries', () => {
+			var comparisonQuery = new Comparison.ComparisonQuery(query, 'previous_year');
+
+			comparisonQuery.execute();
+			comparisonQuery.abort();
+
+			expect(query.abort.calledOnce).to.be.true;
+			expect(previousQuery.abort.calledOnce).to.be.true;
+		});
+	});
+});
@@ -0,0 +1,73 @@
+import chai = require('chai');
+import Api = require('../../../lib/core/api');
+import Computed = require('../../../lib/core/queries/computed');
+
+var expect = chai.expect;
+
+describe('Computed', () => {
+	describe('#compile()', () => {
+		var row = { revenue: 120, orders: 4, refunds: 20, errors: 0, requests: 0 };
+
+		it('should evaluate arithmetic over selects', () => {
+			expect(Computed.compile('revenue / orders')(row)).to.equal(30);
+		});
+
+		it('should respect precedence and parentheses', () => {
+			expect(Computed.compile('(revenue - refunds) / orders * 2 + 1')(row)).to.equal(51);
+		});
+
+		it('should support unary minus and decimals', () => {
+			expect(Computed.compile('-orders * .5')(row)).to.equal(-2);
+		});
+
+		it('should return null when dividing by zero', () => {
+			expect(Computed.compile('errors / requests')(row)).to.be.null;
+		});
+
+		it('should return null for missing selects', () => {
+			expect(Computed.compile('missing + 1')(row)).to.be.null;
+		});
+
+		it('should reject invalid expressions', () => {
+			expect(() => Computed.compile('revenue / ')).to.throw(Error);
+			expect(() => Computed.compile('revenue; alert(1)')).to.throw(Error);
+			expect(() => Computed.compile('(revenue')).to.throw(Error);
+		});
+	});
+
+	describe('#apply()', () => {
+		var computed = [
+			Computed.create('aov', 'revenue / orders'),
+			Computed.create('aovCents', row => row.aov * 100)
+		];
+
+		it('should add computed values to every row', () => {
+			var results = new Api.QueryResults({
+				metadata: { groups: ['country'], interval: null, timezone: null },
+				results: [{ country: 'AU', revenue: 100, orders: 4 }, { country: 'NZ', revenue: 30, orders: 0 }]
+			});
+
+			Computed.apply(results, computed);
+
+			expect(results.results).to.deep.equal([
+				{ country: 'AU', revenue: 100, orders: 4, aov: 25, aovCents: 2500 },
+				{ country: 'NZ', revenue: 30, orders: 0, aov: null, aovCents: 0 }
+			]);
+			expect(results.selects()).to.deep.equal(['revenue', 'orders', 'aov', 'aovCents']);
+		});
+
+		it('should add computed values to interval sub rows', () => {
+			var results = new Api.QueryResults({
+				metadata: { groups: [], interval: 'daily', timezone: null },
+				results: [{
+					interval: { start: '2015-06-15T00:00:00Z', end: '2015-06-16T00:00:00Z' },
+					results: [{ revenue: 10, orders: 2 }]
+				}]
+			});
+
+			Computed.apply(results, computed);
+
+			expect(results.results[0].results[0]['aov']).to.equal(5);
+		});
+	});
+});
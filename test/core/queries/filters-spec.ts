@@ -140,4 +140,23 @@ describe('Filters', () => {
 		});
 
 	});
+
+	describe('or()', () => {
+		it('should parse each specification into an operand', () => {
+			var filter = Filters.or({ country: 'AU' }, { plan: { in: ['pro', 'team'] } });
+
+			expect(filter.combinator).to.equal('or');
+			expect(filter.operands).to.deep.equal([
+				[new Filters.QueryFilter('country', 'eq', 'AU')],
+				[new Filters.QueryFilter('plan', 'in', ['pro', 'team'])]
+			]);
+		});
+
+		it('should keep nested composite filters as operands', () => {
+			var nested = Filters.not({ plan: 'free' }),
+				filter = Filters.or({ country: 'AU' }, nested);
+
+			expect(filter.operands[1]).to.deep.equal([nested]);
+		});
+	});
 });
\ No newline at end of file
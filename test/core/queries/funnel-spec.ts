@@ -0,0 +1,74 @@
+import chai = require('chai');
+import Api = require('../../../lib/core/api');
+import Queries = require('../../../lib/core/queries/queries');
+import Funnel = require('../../../lib/core/queries/funnel');
+import MemoryTransport = require('../../../lib/core/transports/memory');
+
+var expect = chai.expect;
+
+describe('Funnel', () => {
+	var transport: MemoryTransport,
+		client: Api.Client;
+
+	function query(collection: string) {
+		return new Queries.ConnectQuery(client, collection);
+	}
+
+	beforeEach(() => {
+		transport = new MemoryTransport();
+		client = new Api.Client('', 'project', 'key', { transport: transport });
+
+		[
+			['visits', 'AU'], ['visits', 'AU'], ['visits', 'AU'], ['visits', 'NZ'],
+			['signups', 'AU'], ['signups', 'AU'], ['signups', 'NZ'],
+			['purchases', 'AU']
+		].forEach(event => transport.store.push(event[0], { country: event[1], timestamp: '2015-06-15T00:00:00Z' }));
+	});
+
+	describe('FunnelQuery', () => {
+		it('should require at least two steps', () => {
+			expect(() => new Funnel.FunnelQuery([query('visits')])).to.throw(Error);
+		});
+
+		it('should require a count select', () => {
+			expect(() => new Funnel.FunnelQuery([query('visits'), query('signups').select({ total: { sum: 'price' } })])).to.throw(Error);
+		});
+
+		it('should not allow intervals', () => {
+			expect(() => new Funnel.FunnelQuery([query('visits'), query('signups').interval('daily')])).to.throw(Error);
+		});
+
+		it('should apply the shared timeframe to every step', () => {
+			var funnel = new Funnel.FunnelQuery([query('visits'), query('signups')], { timeframe: 'today' });
+
+			expect(funnel._steps[0]._timeframe).to.equal('today');
+			expect(funnel._steps[1]._timeframe).to.equal('today');
+		});
+
+		it('should calculate step and overall conversion', done => {
+			new Funnel.FunnelQuery([query('visits'), query('signups').select({ signups: 'count' }), query('purchases')]).execute().then(results => {
+				expect(results.steps).to.deep.equal([
+					{ name: 'visits', count: 4, conversionRate: 1, overallConversionRate: 1, dropOff: 0, dropOffRate: 0 },
+					{ name: 'signups', count: 3, conversionRate: 0.75, overallConversionRate: 0.75, dropOff: 1, dropOffRate: 0.25 },
+					{ name: 'purchases', count: 1, conversionRate: 1 / 3, overallConversionRate: 0.25, dropOff: 2, dropOffRate: 2 / 3 }
+				]);
+				expect(results.overallConversionRate).to.equal(0.25);
+				expect(results.groups).to.be.empty;
+				done();
+			});
+		});
+
+		it('should break the funnel down by group', done => {
+			new Funnel.FunnelQuery([query('visits'), query('signups'), query('purchases')], { groupBy: 'country' }).execute().then(results => {
+				var nz = results.groups[1];
+
+				expect(results.steps[2].count).to.equal(1);
+				expect(nz.groups).to.deep.equal({ country: 'NZ' });
+				expect(nz.steps[1].conversionRate).to.equal(1);
+				expect(nz.steps[2].count).to.equal(0);
+				expect(nz.overallConversionRate).to.equal(0);
+				done();
+			});
+		});
+	});
+});
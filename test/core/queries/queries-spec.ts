@@ -7,6 +7,9 @@ import Queries = require('../../../lib/core/queries/queries');
 import Selects = require('../../../lib/core/queries/selects');
 import Filters = require('../../../lib/core/queries/filters');
 import QueryBuilder = require('../../../lib/core/queries/query-builder');
+import Errors = require('../../../lib/core/errors');
+import _ = require('underscore');
+import Transport = require('../../../lib/core/transports/transport');
 
 var expect = chai.expect,
  	Q = require('Q');
@@ -114,7 +117,7 @@ describe('Queries', () => {
 				expect(query2).to.not.equal(query);
 			});
 
-			it('should use last filter specification of operator and field', () => {
+			it('should keep every filter specification of operator and field', () => {
 				var field1 = 'field1',
 					field1Value =  { eq: 10 },
 					field2Value =  { gt: 20 },
@@ -131,8 +134,29 @@ describe('Queries', () => {
 
 				query = query.filter(filterSpec1);
 				query = query.filter(filterSpec2);
-				expect(query._filters).not.to.contain(field1Filter);
-				expect(query._filters).to.contain(field2Filter);
+				expect(query._filters).to.deep.equal([field1Filter, field2Filter]);
+			});
+
+			it('should add composite filters', () => {
+				var composite = Filters.or({ country: 'AU' }, { country: 'NZ' });
+
+				query = query.filter(composite);
+				expect(query._filters).to.deep.equal([composite]);
+			});
+
+			it('should keep every composite filter', () => {
+				var composite1 = Filters.or({ country: 'AU' }, { country: 'NZ' }),
+					composite2 = Filters.or({ plan: 'pro' }, { plan: 'team' });
+
+				query = query.filter(composite1).filter(composite2);
+				expect(query._filters).to.have.length(2);
+			});
+
+			it('should not modify the original query when adding composite filters', () => {
+				var query2 = query.filter(Filters.not({ plan: 'free' }));
+
+				expect(query._filters).to.be.empty;
+				expect(query2._filters).to.have.length(1);
 			});
 		});
 
@@ -247,6 +271,27 @@ describe('Queries', () => {
 			});
 		});
 
+		describe('#cache()', () => {
+			it('should set the cache policy', () => {
+				var query = new Queries.ConnectQuery(client, 'test').cache({ ttlMs: 1000 });
+
+				expect(query._options.cache).to.deep.equal({ ttlMs: 1000 });
+			});
+
+			it('should keep the cache policy when building the query further', () => {
+				var query = new Queries.ConnectQuery(client, 'test').cache(false).groupBy('product');
+
+				expect(query._options.cache).to.be.false;
+			});
+
+			it('should return a new query instance', () => {
+				var query = new Queries.ConnectQuery(client, 'test');
+				var query2 = query.cache(false);
+
+				expect(query2).to.not.equal(query);
+			});
+		});
+
 		describe('#execute()', () => {
 			var builder = sinon.createStubInstance(QueryBuilder),
 				QueriesProxy = proxyquire('../../../lib/core/queries/queries', {
@@ -287,6 +332,125 @@ describe('Queries', () => {
 			});
 		});
 
+		describe('#validate()', () => {
+			it('should return no errors for a valid query', () => {
+				var query = new Queries.ConnectQuery(client, 'test')
+					.select({ total: { sum: 'price' } })
+					.interval('daily');
+
+				expect(query.validate()).to.be.empty;
+			});
+
+			it('should return path annotated errors', () => {
+				var query = new Queries.ConnectQuery(client, 'test')
+					.select({ total: { summ: 'price' } })
+					.interval('dayly');
+
+				expect(query.validate()).to.have.length(2);
+				expect(query.validate()[0].path).to.equal('select.total.summ');
+			});
+
+			it('should reject execution of an invalid query', done => {
+				var query = new Queries.ConnectQuery(client, 'test').interval('dayly');
+
+				query.execute().then(null, error => {
+					expect(error).to.be.an.instanceof(Errors.ConnectQueryError);
+					expect(error.errors[0].path).to.equal('interval');
+					done();
+				});
+			});
+
+			it('should report invalid queries to the client', done => {
+				var reportingClient: any = sinon.createStubInstance(Api.Client),
+					query = new Queries.ConnectQuery(reportingClient, 'test').interval('dayly');
+
+				query.execute().then(null, error => {
+					expect(reportingClient.reportQueryError.calledWith('test', sinon.match({ interval: 'dayly' }), error)).to.be.true;
+					done();
+				});
+			});
+		});
+
+		describe('#execute() options', () => {
+			var stubClient: any,
+				deferred,
+				runningRequest;
+
+			beforeEach(() => {
+				stubClient = sinon.createStubInstance(Api.Client);
+				deferred = Q.defer();
+				runningRequest = { abort: sinon.spy() };
+				stubClient['query'].returns({ deferred: deferred, request: runningRequest });
+			});
+
+			it('should reject with a timeout error once the timeout elapses', done => {
+				var query = new Queries.ConnectQuery(stubClient, 'test');
+
+				query.execute({ timeoutMs: 5 }).then(null, error => {
+					expect(error).to.be.an.instanceof(Errors.ConnectTimeoutError);
+					expect(error).to.be.an.instanceof(Errors.ConnectAbortError);
+					expect(error.timeoutMs).to.equal(5);
+					expect(runningRequest.abort.calledOnce).to.be.true;
+					expect(query._runningRequests).to.be.empty;
+					done();
+				});
+			});
+
+			it('should not time out once results have arrived', done => {
+				var results = new Api.QueryResults({ metadata: { groups: [], interval: null, timezone: null }, results: [] });
+
+				new Queries.ConnectQuery(stubClient, 'test').execute({ timeoutMs: 5 }).then(() => {
+					setTimeout(() => {
+						expect(runningRequest.abort.called).to.be.false;
+						done();
+					}, 10);
+				});
+
+				deferred.resolve(results);
+			});
+
+			it('should reject with an abort error when the signal fires', done => {
+				var controller = new Transport.AbortController(),
+					query = new Queries.ConnectQuery(stubClient, 'test'),
+					otherDeferred = Q.defer();
+
+				query.execute({ signal: controller.signal }).then(null, error => {
+					expect(error).to.be.an.instanceof(Errors.ConnectAbortError);
+					expect(error).not.to.be.an.instanceof(Errors.ConnectTimeoutError);
+					expect(query._runningRequests).to.have.length(1);
+					done();
+				});
+
+				stubClient['query'].returns({ deferred: otherDeferred, request: { abort: () => {} } });
+				query.execute();
+
+				controller.abort();
+			});
+
+			it('should not send the query when the signal already fired', done => {
+				var controller = new Transport.AbortController();
+
+				controller.abort();
+
+				new Queries.ConnectQuery(stubClient, 'test').execute({ signal: controller.signal }).then(null, error => {
+					expect(error).to.be.an.instanceof(Errors.ConnectAbortError);
+					expect(stubClient['query'].called).to.be.false;
+					done();
+				});
+			});
+
+			it('should stop tracking failed queries', done => {
+				var query = new Queries.ConnectQuery(stubClient, 'test');
+
+				query.execute().then(null, () => {
+					expect(query._runningRequests).to.be.empty;
+					done();
+				});
+
+				deferred.reject(new Errors.ConnectServerError('failed', 500));
+			});
+		});
+
         describe('#abort()', () => {
 			var builder = sinon.createStubInstance(QueryBuilder),
 				QueriesProxy = proxyquire('../../../lib/core/queries/queries', {
@@ -327,5 +491,190 @@ describe('Queries', () => {
 			});
 
 		});
+
+		describe('#priority()', () => {
+			it('should set the priority without modifying the original query', () => {
+				var query = new Queries.ConnectQuery(client, 'test'),
+					highPriorityQuery = query.priority('high');
+
+				expect(query._options.priority).to.be.undefined;
+				expect(highPriorityQuery._options.priority).to.equal('high');
+			});
+
+			it('should reject unknown priorities', () => {
+				expect(() => new Queries.ConnectQuery(client, 'test').priority('urgent')).to.throw(Error);
+			});
+		});
+
+		describe('#compute()', () => {
+			it('should add computed selects without modifying the original query', () => {
+				var query = new Queries.ConnectQuery(client, 'test'),
+					computedQuery = query.compute('aov', 'revenue / orders');
+
+				expect(query._options.computed).to.be.undefined;
+				expect(computedQuery._options.computed[0].name).to.equal('aov');
+			});
+
+			it('should not allow a name that is already selected', () => {
+				var query = new Queries.ConnectQuery(client, 'test').select({ aov: { avg: 'price' } });
+
+				expect(() => query.compute('aov', 'revenue / orders')).to.throw(Error);
+			});
+
+			it('should add computed selects to the results', done => {
+				var stubClient: any = sinon.createStubInstance(Api.Client),
+					deferred = Q.defer(),
+					query = new Queries.ConnectQuery(stubClient, 'test')
+						.select({ revenue: { sum: 'price' }, orders: 'count' })
+						.compute('aov', 'revenue / orders');
+
+				stubClient['query'].returns({ deferred: deferred, request: { abort: () => {} } });
+				deferred.resolve(new Api.QueryResults({ metadata: { groups: [], interval: null, timezone: null }, results: [{ revenue: 50, orders: 2 }] }));
+
+				query.execute().then(results => {
+					expect(results.results).to.deep.equal([{ revenue: 50, orders: 2, aov: 25 }]);
+					done();
+				});
+			});
+
+			it('should serialize expressions', () => {
+				var query = new Queries.ConnectQuery(client, 'test')
+						.compute('aov', 'revenue / orders')
+						.compute('double', row => row.aov * 2),
+					restored = Queries.fromJSON(client, JSON.stringify(query));
+
+				expect(query.toJSON().compute).to.deep.equal({ aov: 'revenue / orders' });
+				expect(restored._options.computed[0].expression).to.equal('revenue / orders');
+			});
+		});
+
+		describe('result transforms', () => {
+			var stubClient: any,
+				deferred;
+
+			beforeEach(() => {
+				stubClient = sinon.createStubInstance(Api.Client);
+				deferred = Q.defer();
+				stubClient['query'].returns({ deferred: deferred, request: { abort: () => {} } });
+				deferred.resolve(new Api.QueryResults({
+					metadata: { groups: ['product'], interval: null, timezone: null },
+					results: [
+						{ product: 'roses', total: 30, cheapest: 2 },
+						{ product: 'tulips', total: 50, cheapest: 3 },
+						{ product: 'lilies', total: 10, cheapest: 1 }
+					]
+				}));
+			});
+
+			it('should apply transforms in order', done => {
+				new Queries.ConnectQuery(stubClient, 'test')
+					.select({ total: { sum: 'price' }, cheapest: { min: 'price' } })
+					.sortBy('total', 'desc')
+					.filterRows(row => row['product'] !== 'tulips')
+					.limit(1)
+					.execute()
+					.then(results => {
+						expect(results.results).to.deep.equal([{ product: 'roses', total: 30, cheapest: 2 }]);
+						done();
+					});
+			});
+
+			it('should fold other rows using the select aggregations', done => {
+				new Queries.ConnectQuery(stubClient, 'test')
+					.select({ total: { sum: 'price' }, cheapest: { min: 'price' } })
+					.top(1, { otherLabel: 'Other' })
+					.execute()
+					.then(results => {
+						expect(results.results[1]).to.deep.equal({ product: 'Other', total: 40, cheapest: 1 });
+						done();
+					});
+			});
+
+			it('should require an interval to fill gaps', () => {
+				expect(() => new Queries.ConnectQuery(stubClient, 'test').fillGaps()).to.throw(Error);
+			});
+
+			it('should not modify the original query', () => {
+				var query = new Queries.ConnectQuery(stubClient, 'test');
+
+				query.sortBy('total');
+
+				expect(query._options.transforms).to.be.undefined;
+			});
+		});
+
+		describe('#compareTo()', () => {
+			it('should require a timeframe', () => {
+				expect(() => new Queries.ConnectQuery(client, 'test').compareTo('previous_period')).to.throw(Error);
+			});
+
+			it('should return a comparison of the query', () => {
+				var query = new Queries.ConnectQuery(client, 'test').timeframe('this_week'),
+					comparison = query.compareTo('previous_period');
+
+				expect(comparison._query).to.equal(query);
+				expect(comparison._comparison).to.equal('previous_period');
+			});
+		});
+
+		describe('#toJSON()', () => {
+			it('should include the collection and the built query', () => {
+				var query = new Queries.ConnectQuery(client, 'purchases')
+					.select({ total: { sum: 'price' } })
+					.filter({ country: 'AU' })
+					.timeframe({ previous: { days: 7 } });
+
+				expect(query.toJSON()).to.deep.equal({
+					collection: 'purchases',
+					select: { total: { sum: 'price' } },
+					filter: { country: { eq: 'AU' } },
+					timeframe: { previous: { days: 7 } }
+				});
+			});
+		});
+	});
+
+	describe('fromJSON()', () => {
+		var client: any = sinon.createStubInstance(Api.Client),
+			query = new Queries.ConnectQuery(client, 'purchases')
+				.select({ total: { sum: 'price' } })
+				.filter({ price: { gt: 10 } })
+				.filter(Filters.or({ country: 'AU' }, Filters.not({ plan: 'free' })))
+				.groupBy('product')
+				.timeframe({ start: new Date('2015-01-01T00:00:00Z'), end: new Date('2015-02-01T00:00:00Z') })
+				.interval('daily')
+				.timezone('Australia/Brisbane');
+
+		it('should restore a query from a JSON string', () => {
+			var restored = Queries.fromJSON(client, JSON.stringify(query));
+
+			expect(restored.toJSON()).to.deep.equal(JSON.parse(JSON.stringify(query)));
+		});
+
+		it('should reconstruct the filters', () => {
+			var restored = Queries.fromJSON(client, query.toJSON());
+
+			expect(_.filter(restored._filters, filter => filter instanceof Filters.QueryFilter)).to.have.length(1);
+			expect(_.filter(restored._filters, filter => filter instanceof Filters.CompositeFilter)).to.have.length(1);
+		});
+
+		it('should return an immutable query builder', () => {
+			var restored = Queries.fromJSON(client, query.toJSON()),
+				restoredWithGroup = restored.groupBy('country');
+
+			expect(restored._groups).to.deep.equal(['product']);
+			expect(restoredWithGroup._groups).to.deep.equal(['product', 'country']);
+		});
+
+		it('should require a collection', () => {
+			expect(() => Queries.fromJSON(client, '{}')).to.throw(Error);
+		});
+
+		it('should round trip through a url safe string', () => {
+			var encoded = query.toUrlSafeString();
+
+			expect(encoded).to.match(/^[A-Za-z0-9_-]+$/);
+			expect(Queries.fromUrlSafeString(client, encoded).toJSON()).to.deep.equal(JSON.parse(JSON.stringify(query)));
+		});
 	});
 });
@@ -38,6 +38,78 @@ describe('QueryBuilder', () => {
 			});
 		});
 
+		it('should and together conditions on the same field and operator', () => {
+			var filters = [
+				new Filters.QueryFilter('price', 'gt', 1),
+				new Filters.QueryFilter('price', 'gt', 5),
+				new Filters.QueryFilter('price', 'gt', 5)
+			];
+
+			var result = builder.build({}, filters, [], null, null, null);
+
+			expect(result.filter).to.deep.equal({
+				price: { gt: 1 },
+				$and: [{ price: { gt: 5 } }]
+			});
+		});
+
+		it('should add composite filters to query', () => {
+			var filters = [
+				Filters.not({ plan: 'free' }),
+				Filters.or({ country: 'AU' }, { plan: { in: ['pro', 'team'] } }),
+				new Filters.QueryFilter('age', 'gt', 50)
+			];
+
+			var result = builder.build({}, filters, [], null, null, null);
+
+			expect(result.filter).to.deep.equal({
+				$not: { plan: { eq: 'free' } },
+				$or: [{ country: { eq: 'AU' } }, { plan: { in: ['pro', 'team'] } }],
+				age: { gt: 50 }
+			});
+		});
+
+		it('should keep conditions on the same field and operator within a composite filter', () => {
+			var filters = [
+				Filters.or({ price: { lt: 10 } }, { price: { lt: 100 }, plan: 'pro' })
+			];
+
+			var result = builder.build({}, filters, [], null, null, null);
+
+			expect(result.filter).to.deep.equal({
+				$or: [{ price: { lt: 10 } }, { price: { lt: 100 }, plan: { eq: 'pro' } }]
+			});
+		});
+
+		it('should combine nested composite filters', () => {
+			var filters = [
+				Filters.or({ country: 'AU' }, Filters.and({ country: 'NZ' }, Filters.not({ plan: 'free' })))
+			];
+
+			var result = builder.build({}, filters, [], null, null, null);
+
+			expect(result.filter).to.deep.equal({
+				$or: [
+					{ country: { eq: 'AU' } },
+					{ $and: [{ country: { eq: 'NZ' } }, { $not: { plan: { eq: 'free' } } }] }
+				]
+			});
+		});
+
+		it('should and together repeated composite filters', () => {
+			var filters = [
+				Filters.or({ country: 'AU' }, { country: 'NZ' }),
+				Filters.or({ plan: 'pro' }, { plan: 'team' })
+			];
+
+			var result = builder.build({}, filters, [], null, null, null);
+
+			expect(result.filter).to.deep.equal({
+				$or: [{ country: { eq: 'AU' } }, { country: { eq: 'NZ' } }],
+				$and: [{ $or: [{ plan: { eq: 'pro' } }, { plan: { eq: 'team' } }] }]
+			});
+		});
+
 		it('should add groupby to query', () => {
 			var groups = ['field1', 'field2'],
 				result = builder.build({}, [], groups, null, null, null);
@@ -0,0 +1,20 @@
+import chai = require('chai');
+import Serialization = require('../../../lib/core/queries/serialization');
+
+var expect = chai.expect;
+
+describe('Serialization', () => {
+	describe('#toUrlSafe()', () => {
+		it('should only use url safe characters', () => {
+			expect(Serialization.toUrlSafe('{"a":"??>>"}')).to.match(/^[A-Za-z0-9_-]+$/);
+		});
+	});
+
+	describe('#fromUrlSafe()', () => {
+		it('should decode what was encoded', () => {
+			var json = '{"city":"Zürich","emoji":"✓"}';
+
+			expect(Serialization.fromUrlSafe(Serialization.toUrlSafe(json))).to.equal(json);
+		});
+	});
+});
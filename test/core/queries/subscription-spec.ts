@@ -0,0 +1,101 @@
+import chai = require('chai');
+import sinon = require('sinon');
+import Api = require('../../../lib/core/api');
+import Subscription = require('../../../lib/core/queries/subscription');
+
+var expect = chai.expect,
+	Q = require('Q');
+
+describe('Subscription', () => {
+	describe('QuerySubscription', () => {
+		var subscription: Subscription.QuerySubscription;
+
+		function results(total: number) {
+			return new Api.QueryResults({ metadata: { groups: [], interval: null, timezone: null }, results: [{ total: total }] });
+		}
+
+		afterEach(() => {
+			if (subscription) {
+				subscription.unsubscribe();
+			}
+		});
+
+		it('should only emit results that changed', done => {
+			var totals = [1, 1, 2, 2],
+				execute = sinon.spy(() => Q(results(totals[Math.min(execute.callCount - 1, totals.length - 1)]))),
+				onResults = sinon.spy();
+
+			subscription = new Subscription.QuerySubscription(execute, { everyMs: 5, onResults: onResults });
+
+			setTimeout(() => {
+				expect(execute.callCount).to.be.above(3);
+				expect(onResults.callCount).to.equal(2);
+				expect(onResults.secondCall.args[0].results).to.deep.equal([{ total: 2 }]);
+				done();
+			}, 60);
+		});
+
+		it('should skip polling while a request is in flight', done => {
+			var execute = sinon.spy(() => Q.defer().promise);
+
+			subscription = new Subscription.QuerySubscription(execute, { everyMs: 5 });
+			subscription.pause();
+			subscription.resume();
+
+			setTimeout(() => {
+				expect(execute.calledOnce).to.be.true;
+				done();
+			}, 30);
+		});
+
+		it('should back off after errors', done => {
+			var execute = sinon.spy(() => Q.reject(new Error('failed'))),
+				onError = sinon.spy();
+
+			subscription = new Subscription.QuerySubscription(execute, { everyMs: 10, onError: onError });
+
+			setTimeout(() => {
+				expect(onError.callCount).to.equal(2);
+				done();
+			}, 45);
+		});
+
+		it('should not poll while paused', done => {
+			var execute = sinon.spy(() => Q(results(1)));
+
+			subscription = new Subscription.QuerySubscription(execute, { everyMs: 5 });
+			subscription.pause();
+
+			setTimeout(() => {
+				expect(execute.calledOnce).to.be.true;
+				expect(subscription.isPaused()).to.be.true;
+
+				subscription.resume();
+				expect(execute.calledTwice).to.be.true;
+				done();
+			}, 30);
+		});
+
+		it('should stop notifying listeners once unsubscribed', done => {
+			var onResults = sinon.spy();
+
+			subscription = new Subscription.QuerySubscription(() => Q(results(1)), { everyMs: 5, onResults: onResults });
+			subscription.unsubscribe();
+
+			setTimeout(() => {
+				expect(onResults.called).to.be.false;
+				done();
+			}, 20);
+		});
+
+		it('should return the latest results', done => {
+			subscription = new Subscription.QuerySubscription(() => Q(results(3)), { everyMs: 1000 });
+
+			subscription.latestResults().then(latest => {
+				expect(latest.results).to.deep.equal([{ total: 3 }]);
+				expect(subscription.hasResults()).to.be.true;
+				done();
+			});
+		});
+	});
+});
@@ -0,0 +1,93 @@
+import chai = require('chai');
+import _ = require('underscore');
+import Api = require('../../../lib/core/api');
+import Validation = require('../../../lib/core/queries/validation');
+import VizConfig = require('../../../lib/viz/config');
+
+var expect = chai.expect;
+
+describe('Validation', () => {
+	describe('#validate()', () => {
+		function paths(query: Api.Query): string[] {
+			return _.pluck(Validation.validate(query), 'path');
+		}
+
+		it('should accept a valid query', () => {
+			var query: Api.Query = {
+				select: { count: 'count', total: { sum: 'price' } },
+				filter: { price: { gt: 10 }, country: { in: ['AU', 'NZ'] } },
+				groupBy: ['product'],
+				timeframe: { previous: { days: 7 } },
+				interval: 'daily',
+				timezone: 'Australia/Brisbane'
+			};
+
+			expect(Validation.validate(query)).to.be.empty;
+		});
+
+		it('should report unknown aggregations', () => {
+			expect(paths({ select: { total: { summ: 'price' } } })).to.deep.equal(['select.total.summ']);
+		});
+
+		it('should report aggregations without a field', () => {
+			expect(paths({ select: { total: 'sum' } })).to.deep.equal(['select.total']);
+		});
+
+		it('should report unknown filter operators', () => {
+			expect(paths({ filter: { price: { greater: 10 } } })).to.deep.equal(['filter.price.greater']);
+		});
+
+		it('should report unknown operators within composite filters', () => {
+			var query: Api.Query = {
+				filter: {
+					$or: [{ country: { eq: 'AU' } }, { country: { equals: 'NZ' } }],
+					$not: { plan: { isnt: 'free' } }
+				}
+			};
+
+			expect(paths(query)).to.deep.equal(['filter.$or.1.country.equals', 'filter.$not.plan.isnt']);
+		});
+
+		it('should report empty composite filters', () => {
+			expect(paths({ filter: { $or: <any>[] } })).to.deep.equal(['filter.$or']);
+		});
+
+		it('should report unknown intervals', () => {
+			expect(paths({ interval: 'dayly' })).to.deep.equal(['interval']);
+		});
+
+		it('should accept every interval the visualizations can format', () => {
+			_.each(_.keys(VizConfig.defaultTimeSeriesFormats), interval => {
+				expect(paths({ interval: interval })).to.be.empty;
+			});
+		});
+
+		it('should report relative timeframes with unknown periods', () => {
+			expect(paths({ timeframe: { previous: <any>{ day: 7 } } })).to.deep.equal(['timeframe.previous.day']);
+		});
+
+		it('should report relative timeframes with invalid amounts', () => {
+			expect(paths({ timeframe: { current: { days: -1 } } })).to.deep.equal(['timeframe.current.days']);
+		});
+
+		it('should report relative timeframes with both directions', () => {
+			expect(paths({ timeframe: { current: { days: 1 }, previous: { days: 1 } } })).to.deep.equal(['timeframe']);
+		});
+
+		it('should report absolute timeframes that end before they start', () => {
+			expect(paths({ timeframe: { start: '2015-02-01', end: '2015-01-01' } })).to.deep.equal(['timeframe']);
+		});
+
+		it('should report invalid dates', () => {
+			expect(paths({ timeframe: { start: 'yesterday-ish' } })).to.deep.equal(['timeframe.start']);
+		});
+
+		it('should report unknown timezones', () => {
+			expect(paths({ timezone: 'Australia/Brisbaine' })).to.deep.equal(['timezone']);
+		});
+
+		it('should report out of range timezone offsets', () => {
+			expect(paths({ timezone: 20 })).to.deep.equal(['timezone']);
+		});
+	});
+});
@@ -0,0 +1,86 @@
+import chai = require('chai');
+import Retry = require('../../lib/core/retry');
+
+var expect = chai.expect;
+
+describe('Retry', () => {
+	describe('#resolvePolicy()', () => {
+		it('should not retry by default', () => {
+			var policy = Retry.resolvePolicy(null, 'query');
+
+			expect(policy.maxAttempts).to.equal(1);
+		});
+
+		it('should apply shared options to every kind', () => {
+			var policy = Retry.resolvePolicy({ maxAttempts: 3 }, 'push');
+
+			expect(policy.maxAttempts).to.equal(3);
+		});
+
+		it('should let kind specific options override shared options', () => {
+			var options = { maxAttempts: 3, query: { maxAttempts: 5 } };
+
+			expect(Retry.resolvePolicy(options, 'query').maxAttempts).to.equal(5);
+			expect(Retry.resolvePolicy(options, 'push').maxAttempts).to.equal(3);
+		});
+	});
+
+	describe('#nextDelay()', () => {
+		var policy = Retry.resolvePolicy({ maxAttempts: 4, initialDelayMs: 100, maxDelayMs: 1000, jitter: false }, 'query');
+
+		it('should back off exponentially', () => {
+			expect(Retry.nextDelay(policy, 1, 503)).to.equal(100);
+			expect(Retry.nextDelay(policy, 2, 503)).to.equal(200);
+			expect(Retry.nextDelay(policy, 3, 503)).to.equal(400);
+		});
+
+		it('should stop once the maximum attempts have been made', () => {
+			expect(Retry.nextDelay(policy, 4, 503)).to.be.null;
+		});
+
+		it('should retry network failures', () => {
+			expect(Retry.nextDelay(policy, 1, 'NetworkFailure')).to.equal(100);
+		});
+
+		it('should not retry statuses that are not retryable', () => {
+			expect(Retry.nextDelay(policy, 1, 400)).to.be.null;
+			expect(Retry.nextDelay(policy, 1, 401)).to.be.null;
+		});
+
+		it('should never exceed the maximum delay', () => {
+			var longPolicy = Retry.resolvePolicy({ maxAttempts: 20, initialDelayMs: 100, maxDelayMs: 1000, jitter: false }, 'query');
+
+			expect(Retry.nextDelay(longPolicy, 10, 503)).to.equal(1000);
+		});
+
+		it('should apply jitter within the backoff', () => {
+			var jitterPolicy = Retry.resolvePolicy({ maxAttempts: 4, initialDelayMs: 100, jitter: true }, 'query');
+
+			expect(Retry.nextDelay(jitterPolicy, 2, 503, null, () => 0.5)).to.equal(100);
+		});
+
+		it('should wait at least as long as Retry-After', () => {
+			expect(Retry.nextDelay(policy, 1, 503, '0.5')).to.equal(500);
+		});
+
+		it('should give up when Retry-After exceeds the maximum delay', () => {
+			expect(Retry.nextDelay(policy, 1, 503, '120')).to.be.null;
+		});
+	});
+
+	describe('#parseRetryAfter()', () => {
+		it('should parse seconds', () => {
+			expect(Retry.parseRetryAfter('2')).to.equal(2000);
+		});
+
+		it('should parse http dates', () => {
+			var now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+			expect(Retry.parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', now)).to.equal(5000);
+		});
+
+		it('should ignore missing values', () => {
+			expect(Retry.parseRetryAfter(null)).to.be.null;
+		});
+	});
+});
@@ -0,0 +1,68 @@
+import chai = require('chai');
+import Api = require('../../lib/core/api');
+
+var expect = chai.expect;
+
+describe('Rows', () => {
+	var intervals = new Api.QueryResults({
+		metadata: { groups: ['product'], interval: 'daily', timezone: null },
+		results: [
+			{
+				interval: { start: '2015-06-15T00:00:00Z', end: '2015-06-16T00:00:00Z' },
+				results: [{ product: 'roses', total: 5 }, { product: 'tulips', total: 1 }]
+			},
+			{
+				interval: { start: '2015-06-16T00:00:00Z', end: '2015-06-17T00:00:00Z' },
+				results: [{ product: 'roses', total: 2 }]
+			}
+		]
+	});
+
+	describe('#toRows()', () => {
+		it('should flatten plain results', () => {
+			var results = new Api.QueryResults({
+				metadata: { groups: ['product'], interval: null, timezone: null },
+				results: [{ product: 'roses', total: 5, count: 2 }]
+			});
+
+			expect(results.toRows()).to.deep.equal([{ groups: { product: 'roses' }, values: { total: 5, count: 2 } }]);
+		});
+
+		it('should flatten interval results', () => {
+			var rows = intervals.toRows();
+
+			expect(rows).to.have.length(3);
+			expect(rows[2]).to.deep.equal({
+				interval: { start: new Date('2015-06-16T00:00:00Z'), end: new Date('2015-06-17T00:00:00Z') },
+				groups: { product: 'roses' },
+				values: { total: 2 }
+			});
+		});
+	});
+
+	describe('#toMatrix()', () => {
+		it('should pivot a select by interval and group', () => {
+			expect(intervals.toMatrix('interval', 'product', 'total')).to.deep.equal({
+				rows: [new Date('2015-06-15T00:00:00Z'), new Date('2015-06-16T00:00:00Z')],
+				columns: ['roses', 'tulips'],
+				values: [[5, 1], [2, null]]
+			});
+		});
+
+		it('should pivot by two groups', () => {
+			var results = new Api.QueryResults({
+				metadata: { groups: ['country', 'product'], interval: null, timezone: null },
+				results: [
+					{ country: 'AU', product: 'roses', total: 5 },
+					{ country: 'NZ', product: 'tulips', total: 3 }
+				]
+			});
+
+			expect(results.toMatrix('product', 'country', 'total')).to.deep.equal({
+				rows: ['roses', 'tulips'],
+				columns: ['AU', 'NZ'],
+				values: [[5, null], [null, 3]]
+			});
+		});
+	});
+});
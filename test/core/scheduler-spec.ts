@@ -0,0 +1,105 @@
+import chai = require('chai');
+import Api = require('../../lib/core/api');
+import Scheduler = require('../../lib/core/scheduler');
+import Transport = require('../../lib/core/transports/transport');
+
+var expect = chai.expect,
+	Q = require('Q');
+
+describe('Scheduler', () => {
+	describe('QueryScheduler', () => {
+		var started: string[],
+			tasks: { [name: string]: Api.ClientDeferredQuery };
+
+		function task(name: string) {
+			return () => {
+				started.push(name);
+				tasks[name] = { deferred: Q.defer(), request: new Transport.AbortController() };
+				return tasks[name];
+			};
+		}
+
+		beforeEach(() => {
+			started = [];
+			tasks = {};
+		});
+
+		it('should run every task when unlimited', () => {
+			var scheduler = new Scheduler.QueryScheduler();
+
+			scheduler.schedule(task('a'));
+			scheduler.schedule(task('b'));
+
+			expect(started).to.deep.equal(['a', 'b']);
+		});
+
+		it('should limit the number of running tasks', () => {
+			var scheduler = new Scheduler.QueryScheduler({ maxConcurrent: 1 });
+
+			scheduler.schedule(task('a'));
+			scheduler.schedule(task('b'));
+
+			expect(started).to.deep.equal(['a']);
+			expect(scheduler.metrics().running).to.equal(1);
+			expect(scheduler.metrics().queued).to.equal(1);
+		});
+
+		it('should start queued tasks by priority once a task finishes', done => {
+			var scheduler = new Scheduler.QueryScheduler({ maxConcurrent: 1 }),
+				finish = (name: string) => () => {
+					tasks[name].deferred.resolve(null);
+					return Q.delay(1);
+				};
+
+			scheduler.schedule(task('a'));
+			scheduler.schedule(task('low'), 'low');
+			scheduler.schedule(task('normal'));
+			scheduler.schedule(task('high'), 'high');
+
+			finish('a')().then(finish('high')).then(finish('normal')).then(() => {
+				expect(started).to.deep.equal(['a', 'high', 'normal', 'low']);
+				done();
+			});
+		});
+
+		it('should resolve with the results of the task', done => {
+			var scheduler = new Scheduler.QueryScheduler();
+
+			scheduler.schedule(task('a')).deferred.promise.then(results => {
+				expect(results).to.equal('results');
+				expect(scheduler.metrics().completed).to.equal(1);
+				done();
+			});
+
+			tasks['a'].deferred.resolve('results');
+		});
+
+		it('should never start tasks aborted while queued', () => {
+			var scheduler = new Scheduler.QueryScheduler({ maxConcurrent: 1 }),
+				running = scheduler.schedule(task('a')),
+				queued = scheduler.schedule(task('b'));
+
+			queued.request.abort();
+			running.request.abort();
+
+			expect(started).to.deep.equal(['a']);
+			expect(tasks['a'].request.signal.aborted).to.be.true;
+			expect(scheduler.metrics()).to.include({ running: 0, queued: 0, aborted: 1 });
+		});
+
+		it('should count queued tasks by priority', () => {
+			var scheduler = new Scheduler.QueryScheduler({ maxConcurrent: 1 });
+
+			scheduler.schedule(task('a'));
+			scheduler.schedule(task('b'), 'high');
+			scheduler.schedule(task('c'), 'low');
+			scheduler.schedule(task('d'), 'low');
+
+			expect(scheduler.metrics().queuedByPriority).to.deep.equal({ high: 1, normal: 0, low: 2 });
+		});
+
+		it('should reject unknown priorities', () => {
+			expect(() => new Scheduler.QueryScheduler().schedule(task('a'), 'urgent')).to.throw(Error);
+		});
+	});
+});
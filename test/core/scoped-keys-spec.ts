@@ -0,0 +1,57 @@
+import chai = require('chai');
+import ScopedKeys = require('../../lib/core/scoped-keys');
+import Filters = require('../../lib/core/queries/filters');
+
+var expect = chai.expect;
+
+describe('ScopedKeys', () => {
+	var masterKey = '0123456789ABCDEF0123456789ABCDEF';
+
+	describe('#generate()', () => {
+		it('should encrypt a read only key definition with the filters and collections', () => {
+			var key = ScopedKeys.generate(masterKey, { filters: { customerId: 42 }, collections: ['purchases'] });
+
+			expect(ScopedKeys.decode(masterKey, key)).to.deep.equal({
+				filters: { customerId: { eq: 42 } },
+				collections: ['purchases'],
+				canQuery: true,
+				canPush: false
+			});
+		});
+
+		it('should support composite filters', () => {
+			var key = ScopedKeys.generate(masterKey, { filters: Filters.or({ country: 'AU' }, { country: 'NZ' }) });
+
+			expect(ScopedKeys.decode(masterKey, key).filters).to.deep.equal({
+				$or: [{ country: { eq: 'AU' } }, { country: { eq: 'NZ' } }]
+			});
+		});
+
+		it('should prefix the cipher text with its initialization vector', () => {
+			var key = ScopedKeys.generate(masterKey, { filters: { customerId: 42 } });
+
+			expect(key).to.match(/^[0-9a-f]{32}-[0-9a-f]+$/);
+			expect(key).to.not.equal(ScopedKeys.generate(masterKey, { filters: { customerId: 42 } }));
+		});
+
+		it('should require a 32 character master key', () => {
+			expect(() => ScopedKeys.generate('short', {})).to.throw('A 32 character master key is required for scoped keys.');
+		});
+
+		it('should reject invalid collections', () => {
+			expect(() => ScopedKeys.generate(masterKey, { collections: [''] })).to.throw('Scoped key collections must be non-empty strings.');
+		});
+	});
+
+	describe('#decode()', () => {
+		it('should reject keys encrypted with another master key', () => {
+			var key = ScopedKeys.generate('FEDCBA9876543210FEDCBA9876543210', { filters: { customerId: 42 } });
+
+			expect(() => ScopedKeys.decode(masterKey, key)).to.throw('The scoped key is invalid.');
+		});
+
+		it('should reject malformed keys', () => {
+			expect(() => ScopedKeys.decode(masterKey, 'not-a-key')).to.throw('The scoped key is invalid.');
+		});
+	});
+});
@@ -0,0 +1,127 @@
+import chai = require('chai');
+import Timeframes = require('../../lib/core/timeframes');
+
+var expect = chai.expect;
+
+describe('Timeframes', () => {
+	var now = new Date('2015-06-17T12:30:00Z');
+
+	describe('builders', () => {
+		it('should build previous timeframes', () => {
+			expect(Timeframes.previous(7).days()).to.deep.equal({ previous: { days: 7 } });
+		});
+
+		it('should build current timeframes', () => {
+			expect(Timeframes.current().months()).to.deep.equal({ current: { months: 1 } });
+		});
+
+		it('should build absolute timeframes', () => {
+			expect(Timeframes.between('2015-01-01', '2015-02-01')).to.deep.equal({ start: '2015-01-01', end: '2015-02-01' });
+			expect(Timeframes.since('2015-01-01')).to.deep.equal({ start: '2015-01-01' });
+		});
+	});
+
+	describe('presets', () => {
+		it('should return relative timeframes', () => {
+			expect(Timeframes.today()).to.deep.equal({ current: { days: 1 } });
+			expect(Timeframes.lastMonth()).to.deep.equal({ previous: { months: 1 } });
+		});
+
+		it('should return a new timeframe each time', () => {
+			Timeframes.yesterday().previous.days = 3;
+
+			expect(Timeframes.yesterday()).to.deep.equal({ previous: { days: 1 } });
+		});
+
+		it('should reject unknown names', () => {
+			expect(() => Timeframes.named('fortnight')).to.throw(Error);
+		});
+	});
+
+	describe('#toDate()', () => {
+		it('should start at the start of the period in the timezone', () => {
+			var timeframe = Timeframes.monthToDate('Australia/Brisbane', now);
+
+			expect(timeframe.start).to.deep.equal(new Date('2015-05-31T14:00:00Z'));
+			expect(timeframe.end).to.deep.equal(now);
+		});
+
+		it('should start weeks on monday', () => {
+			expect(Timeframes.weekToDate('UTC', now).start).to.deep.equal(new Date('2015-06-15T00:00:00Z'));
+		});
+	});
+
+	describe('#samePeriodLastYear()', () => {
+		it('should shift a relative timeframe back a year', () => {
+			var timeframe = Timeframes.samePeriodLastYear(Timeframes.previous(7).days(), 'UTC', now);
+
+			expect(timeframe).to.deep.equal({
+				start: new Date('2014-06-10T00:00:00Z'),
+				end: new Date('2014-06-17T00:00:00Z')
+			});
+		});
+
+		it('should keep open ended timeframes open', () => {
+			var timeframe = Timeframes.samePeriodLastYear(Timeframes.since('2015-01-01T00:00:00Z'), 'UTC', now);
+
+			expect(timeframe).to.deep.equal({ start: new Date('2014-01-01T00:00:00Z') });
+		});
+	});
+
+	describe('#previousPeriod()', () => {
+		it('should shift relative timeframes by their period', () => {
+			expect(Timeframes.previousPeriod(Timeframes.current().months(), 'UTC', now)).to.deep.equal({
+				start: new Date('2015-05-01T00:00:00Z'),
+				end: new Date('2015-06-01T00:00:00Z')
+			});
+		});
+
+		it('should shift named timeframes by their period', () => {
+			expect(Timeframes.previousPeriod('last_week', 'UTC', now)).to.deep.equal({
+				start: new Date('2015-06-01T00:00:00Z'),
+				end: new Date('2015-06-08T00:00:00Z')
+			});
+		});
+
+		it('should shift relative timeframes in UTC when no timezone is given', () => {
+			expect(Timeframes.previousPeriod(Timeframes.thisWeek(), null, now)).to.deep.equal({
+				start: new Date('2015-06-08T00:00:00Z'),
+				end: new Date('2015-06-15T00:00:00Z')
+			});
+		});
+
+		it('should shift absolute timeframes by their duration', () => {
+			expect(Timeframes.previousPeriod(Timeframes.between('2015-06-10T00:00:00Z', '2015-06-13T00:00:00Z'))).to.deep.equal({
+				start: new Date('2015-06-07T00:00:00Z'),
+				end: new Date('2015-06-10T00:00:00Z')
+			});
+		});
+
+		it('should reject open ended timeframes', () => {
+			expect(() => Timeframes.previousPeriod(Timeframes.since('2015-06-10T00:00:00Z'))).to.throw(Error);
+		});
+	});
+
+	describe('#resolve()', () => {
+		it('should resolve named timeframes', () => {
+			expect(Timeframes.resolve('yesterday', 10, now)).to.deep.equal({
+				start: new Date('2015-06-15T14:00:00Z'),
+				end: new Date('2015-06-16T14:00:00Z')
+			});
+		});
+
+		it('should resolve relative timeframes in the timezone', () => {
+			expect(Timeframes.resolve(Timeframes.current(2).days(), 'UTC', now)).to.deep.equal({
+				start: new Date('2015-06-16T00:00:00Z'),
+				end: new Date('2015-06-18T00:00:00Z')
+			});
+		});
+
+		it('should resolve in UTC like the API when no timezone is given', () => {
+			expect(Timeframes.resolve(Timeframes.thisWeek(), null, now)).to.deep.equal({
+				start: new Date('2015-06-15T00:00:00Z'),
+				end: new Date('2015-06-22T00:00:00Z')
+			});
+		});
+	});
+});
@@ -0,0 +1,182 @@
+import chai = require('chai');
+import Api = require('../../lib/core/api');
+import Transforms = require('../../lib/core/transforms');
+
+var expect = chai.expect;
+
+describe('Transforms', () => {
+	var grouped: Api.QueryResults,
+		intervals: Api.QueryResults;
+
+	beforeEach(() => {
+		grouped = new Api.QueryResults({
+			metadata: { groups: ['product'], interval: null, timezone: null },
+			results: [
+				{ product: 'roses', total: 30 },
+				{ product: 'tulips', total: 50 },
+				{ product: 'lilies', total: 10 },
+				{ product: 'daisies', total: 20 }
+			]
+		});
+
+		intervals = new Api.QueryResults({
+			metadata: { groups: ['product'], interval: 'daily', timezone: null },
+			results: [
+				{
+					interval: { start: '2015-06-15T00:00:00Z', end: '2015-06-16T00:00:00Z' },
+					results: [{ product: 'roses', total: 5 }, { product: 'tulips', total: 1 }, { product: 'lilies', total: 2 }]
+				},
+				{
+					interval: { start: '2015-06-16T00:00:00Z', end: '2015-06-17T00:00:00Z' },
+					results: [{ product: 'roses', total: 1 }, { product: 'tulips', total: 8 }, { product: 'lilies', total: 1 }]
+				}
+			]
+		});
+	});
+
+	describe('#sortBy()', () => {
+		it('should sort rows descending', () => {
+			expect(grouped.sortBy('total', 'desc').results.map(row => row['product'])).to.deep.equal(['tulips', 'roses', 'daisies', 'lilies']);
+		});
+
+		it('should sort rows within each interval', () => {
+			var sorted = intervals.sortBy('total');
+
+			expect(sorted.results[0].results.map(row => row['product'])).to.deep.equal(['tulips', 'lilies', 'roses']);
+			expect(sorted.results[1].results.map(row => row['product'])).to.deep.equal(['roses', 'lilies', 'tulips']);
+		});
+
+		it('should not modify the original results', () => {
+			grouped.sortBy('total', 'desc');
+
+			expect(grouped.results[0]['product']).to.equal('roses');
+		});
+	});
+
+	describe('#top()', () => {
+		it('should keep the top rows', () => {
+			expect(grouped.top(2).results).to.deep.equal([{ product: 'tulips', total: 50 }, { product: 'roses', total: 30 }]);
+		});
+
+		it('should fold the remaining rows into an other row', () => {
+			expect(grouped.top(2, { otherLabel: 'Other', aggregate: Transforms.sum }).results[2]).to.deep.equal({ product: 'Other', total: 30 });
+		});
+
+		it('should require an aggregate for the other row', () => {
+			expect(() => grouped.top(2, { otherLabel: 'Other' })).to.throw('An aggregate is required to fold the remaining rows into "Other".');
+		});
+
+		it('should use the aggregate for the other row', () => {
+			var top = grouped.top(2, { otherLabel: 'Other', aggregate: values => Math.max.apply(Math, values) });
+
+			expect(top.results[2]['total']).to.equal(20);
+		});
+
+		it('should rank groups across every interval', () => {
+			var top = intervals.top(2, { otherLabel: 'Other', aggregate: Transforms.sum });
+
+			expect(top.results[0].results).to.deep.equal([{ product: 'tulips', total: 1 }, { product: 'roses', total: 5 }, { product: 'Other', total: 2 }]);
+			expect(top.results[1].results).to.deep.equal([{ product: 'tulips', total: 8 }, { product: 'roses', total: 1 }, { product: 'Other', total: 1 }]);
+		});
+	});
+
+	describe('#limit()', () => {
+		it('should limit rows', () => {
+			expect(grouped.limit(1).results).to.have.length(1);
+		});
+
+		it('should limit rows within each interval', () => {
+			var limited = intervals.limit(1);
+
+			expect(limited.results).to.have.length(2);
+			expect(limited.results[1].results).to.deep.equal([{ product: 'roses', total: 1 }]);
+		});
+	});
+
+	describe('#filterRows()', () => {
+		it('should filter rows', () => {
+			expect(grouped.filterRows(row => row['total'] > 25).results).to.have.length(2);
+		});
+
+		it('should pass the interval to the predicate', () => {
+			var filtered = intervals.filterRows((row, interval) => (<Date>interval.start).getUTCDate() === 16 || row['total'] > 1);
+
+			expect(filtered.results[0].results).to.have.length(2);
+			expect(filtered.results[1].results).to.have.length(3);
+		});
+	});
+
+	describe('#fillGaps()', () => {
+		function dailyResults(timezone: any, results: Api.QueryResultItem[]) {
+			return new Api.QueryResults({ metadata: { groups: ['product'], interval: 'daily', timezone: timezone }, results: results });
+		}
+
+		it('should fill missing intervals and groups', () => {
+			var results = dailyResults('UTC', [
+					{ interval: { start: '2015-06-15T00:00:00Z', end: '2015-06-16T00:00:00Z' }, results: [{ product: 'roses', total: 5 }, { product: 'tulips', total: 1 }] },
+					{ interval: { start: '2015-06-17T00:00:00Z', end: '2015-06-18T00:00:00Z' }, results: [{ product: 'roses', total: 2 }] }
+				]),
+				filled = results.fillGaps();
+
+			expect(filled.results).to.have.length(3);
+			expect(filled.results[1].interval).to.deep.equal({ start: new Date('2015-06-16T00:00:00Z'), end: new Date('2015-06-17T00:00:00Z') });
+			expect(filled.results[1].results).to.deep.equal([{ product: 'roses', total: 0 }, { product: 'tulips', total: 0 }]);
+			expect(filled.results[2].results).to.deep.equal([{ product: 'roses', total: 2 }, { product: 'tulips', total: 0 }]);
+		});
+
+		it('should fill every interval of the timeframe with the fill value', () => {
+			var results = dailyResults('UTC', [
+					{ interval: { start: '2015-06-15T00:00:00Z', end: '2015-06-16T00:00:00Z' }, results: [{ product: 'roses', total: 5 }] }
+				]),
+				filled = results.fillGaps({ value: null, timeframe: { start: '2015-06-13T00:00:00Z', end: '2015-06-17T00:00:00Z' } });
+
+			expect(filled.results.map(result => (<Date>result.interval.start).toISOString())).to.deep.equal([
+				'2015-06-13T00:00:00.000Z', '2015-06-14T00:00:00.000Z', '2015-06-15T00:00:00.000Z', '2015-06-16T00:00:00.000Z'
+			]);
+			expect(filled.results[0].results).to.deep.equal([{ product: 'roses', total: null }]);
+		});
+
+		it('should not fill intervals after now', () => {
+			var results = dailyResults('UTC', []),
+				filled = results.fillGaps({ timeframe: { current: { weeks: 1 } }, now: new Date('2015-06-17T12:00:00Z') });
+
+			expect(filled.results).to.have.length(3);
+		});
+
+		it('should use UTC intervals when the results have no timezone', () => {
+			var results = new Api.QueryResults({
+					metadata: { groups: [], interval: 'daily', timezone: null },
+					results: [
+						{ interval: { start: '2015-10-10T00:00:00Z', end: '2015-10-11T00:00:00Z' }, results: [{ total: 5 }] },
+						{ interval: { start: '2015-10-12T00:00:00Z', end: '2015-10-13T00:00:00Z' }, results: [{ total: 7 }] }
+					]
+				}),
+				filled = results.fillGaps({ value: 0, timeframe: { start: '2015-10-10T00:00:00Z', end: '2015-10-13T00:00:00Z' }, now: new Date('2015-11-01T00:00:00Z') });
+
+			expect(filled.results.map(result => (<Date>result.interval.start).toISOString())).to.deep.equal([
+				'2015-10-10T00:00:00.000Z', '2015-10-11T00:00:00.000Z', '2015-10-12T00:00:00.000Z'
+			]);
+			expect(filled.results.map(result => result.results[0]['total'])).to.deep.equal([5, 0, 7]);
+		});
+
+		it('should use daylight saving boundaries in the timezone', () => {
+			var results = dailyResults('Australia/Sydney', []),
+				filled = results.fillGaps({ timeframe: { start: '2015-04-03T13:00:00Z', end: '2015-04-06T14:00:00Z' }, now: new Date('2015-05-01T00:00:00Z') });
+
+			expect(filled.results.map(result => (<Date>result.interval.start).toISOString())).to.deep.equal([
+				'2015-04-03T13:00:00.000Z', '2015-04-04T13:00:00.000Z', '2015-04-05T14:00:00.000Z'
+			]);
+			expect((<Date>filled.results[1].interval.end).toISOString()).to.equal('2015-04-05T14:00:00.000Z');
+		});
+
+		it('should use month boundaries in the timezone', () => {
+			var results = new Api.QueryResults({ metadata: { groups: [], interval: 'monthly', timezone: 'Australia/Sydney' }, results: [] }),
+				filled = results.fillGaps({ timeframe: { start: '2015-01-31T13:00:00Z', end: '2015-04-30T14:00:00Z' }, now: new Date('2015-05-01T00:00:00Z') });
+
+			expect(filled.results.map(result => (<Date>result.interval.start).toISOString())).to.deep.equal([
+				'2015-01-31T13:00:00.000Z', '2015-02-28T13:00:00.000Z', '2015-03-31T13:00:00.000Z'
+			]);
+			expect(filled.results[0].results).to.deep.equal([{}]);
+		});
+	});
+});
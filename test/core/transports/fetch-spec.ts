@@ -0,0 +1,82 @@
+import chai = require('chai');
+import sinon = require('sinon');
+import FetchTransport = require('../../../lib/core/transports/fetch');
+import Transport = require('../../../lib/core/transports/transport');
+
+var expect = chai.expect,
+	Q = require('Q');
+
+describe('FetchTransport', () => {
+	var fetch: SinonStub,
+		abort: SinonSpy,
+		transport: FetchTransport;
+
+	function fetchResponse(status: number, headers: { [name: string]: string }, text: string) {
+		return {
+			status: status,
+			headers: { forEach: (callback: (value: string, name: string) => void) => Object.keys(headers).forEach(name => callback(headers[name], name)) },
+			text: () => Q(text)
+		};
+	}
+
+	beforeEach(() => {
+		fetch = sinon.stub();
+		abort = sinon.spy();
+		global.fetch = fetch;
+		global.AbortController = function() {
+			this.signal = {};
+			this.abort = abort;
+		};
+		transport = new FetchTransport();
+	});
+
+	afterEach(() => {
+		delete global.fetch;
+		delete global.AbortController;
+	});
+
+	it('should send the method, headers and body', () => {
+		fetch.returns(Q(fetchResponse(200, {}, '')));
+
+		transport.send({ method: 'POST', url: 'https://api.getconnect.io/events/purchases', headers: { 'X-Api-Key': 'key' }, body: '{"price":10}' });
+
+		expect(fetch.firstCall.args[0]).to.equal('https://api.getconnect.io/events/purchases');
+		expect(fetch.firstCall.args[1].method).to.equal('POST');
+		expect(fetch.firstCall.args[1].headers).to.deep.equal({ 'X-Api-Key': 'key' });
+		expect(fetch.firstCall.args[1].body).to.equal('{"price":10}');
+	});
+
+	it('should resolve with the status, lower cased headers and parsed body', done => {
+		fetch.returns(Q(fetchResponse(503, { 'Retry-After': '5' }, '{"errorMessage":"Unavailable"}')));
+
+		transport.send({ method: 'GET', url: 'https://api.getconnect.io/events/purchases', headers: {} }).then(response => {
+			expect(response.status).to.equal(503);
+			expect(response.headers).to.deep.equal({ 'retry-after': '5' });
+			expect(response.body).to.deep.equal({ errorMessage: 'Unavailable' });
+			expect(response.text).to.equal('{"errorMessage":"Unavailable"}');
+			done();
+		});
+	});
+
+	it('should reject when the request fails', done => {
+		var failure = new Error('Failed to fetch');
+
+		fetch.returns(Q.reject(failure));
+
+		transport.send({ method: 'GET', url: 'https://api.getconnect.io/events/purchases', headers: {} }).then(null, error => {
+			expect(error).to.equal(failure);
+			done();
+		});
+	});
+
+	it('should abort the fetch when the request is aborted', () => {
+		var controller = new Transport.AbortController();
+
+		fetch.returns(Q.defer().promise);
+
+		transport.send({ method: 'GET', url: 'https://api.getconnect.io/events/purchases', headers: {}, signal: controller.signal });
+		controller.abort();
+
+		expect(abort.calledOnce).to.be.true;
+	});
+});
@@ -0,0 +1,97 @@
+import chai = require('chai');
+import sinon = require('sinon');
+import proxyquire = require('proxyquire');
+import events = require('events');
+import Transport = require('../../../lib/core/transports/transport');
+
+var expect = chai.expect;
+
+describe('NodeHttpTransport', () => {
+	var http: any,
+		https: any,
+		pendingRequest: any,
+		NodeHttpTransport: any;
+
+	function respond(client: any, status: number, headers: any, chunks: string[]) {
+		var res: any = new events.EventEmitter();
+
+		res.statusCode = status;
+		res.headers = headers;
+		res.setEncoding = sinon.spy();
+
+		client.request.firstCall.args[1](res);
+		chunks.forEach(chunk => res.emit('data', chunk));
+		res.emit('end');
+	}
+
+	beforeEach(() => {
+		pendingRequest = new events.EventEmitter();
+		pendingRequest.write = sinon.spy();
+		pendingRequest.end = sinon.spy();
+		pendingRequest.abort = sinon.spy();
+
+		http = { request: sinon.stub().returns(pendingRequest) };
+		https = { request: sinon.stub().returns(pendingRequest) };
+
+		NodeHttpTransport = proxyquire('../../../lib/core/transports/node-http', {
+			'http': http,
+			'https': https
+		});
+	});
+
+	it('should send https requests with the method, path, headers and body', () => {
+		var agent = {};
+
+		new NodeHttpTransport({ agent: agent }).send({ method: 'POST', url: 'https://api.getconnect.io/events/purchases?x=1', headers: { 'X-Api-Key': 'key' }, body: '{"price":10}' });
+
+		var options = https.request.firstCall.args[0];
+
+		expect(http.request.called).to.be.false;
+		expect(options.method).to.equal('POST');
+		expect(options.hostname).to.equal('api.getconnect.io');
+		expect(options.path).to.equal('/events/purchases?x=1');
+		expect(options.headers).to.deep.equal({ 'X-Api-Key': 'key' });
+		expect(options.agent).to.equal(agent);
+		expect(pendingRequest.write.calledWith('{"price":10}')).to.be.true;
+		expect(pendingRequest.end.calledOnce).to.be.true;
+	});
+
+	it('should send http requests with the port', () => {
+		new NodeHttpTransport().send({ method: 'GET', url: 'http://localhost:8080/events/purchases', headers: {} });
+
+		expect(http.request.firstCall.args[0].port).to.equal('8080');
+		expect(pendingRequest.write.called).to.be.false;
+	});
+
+	it('should resolve with the status, headers and parsed body', done => {
+		new NodeHttpTransport().send({ method: 'GET', url: 'https://api.getconnect.io/events/purchases', headers: {} }).then(response => {
+			expect(response.status).to.equal(503);
+			expect(response.headers).to.deep.equal({ 'retry-after': '5' });
+			expect(response.body).to.deep.equal({ errorMessage: 'Unavailable' });
+			expect(response.text).to.equal('{"errorMessage":"Unavailable"}');
+			done();
+		});
+
+		respond(https, 503, { 'retry-after': '5' }, ['{"errorMessage":', '"Unavailable"}']);
+	});
+
+	it('should reject when the request errors', done => {
+		var failure = new Error('socket hang up');
+
+		new NodeHttpTransport().send({ method: 'GET', url: 'https://api.getconnect.io/events/purchases', headers: {} }).then(null, error => {
+			expect(error).to.equal(failure);
+			done();
+		});
+
+		pendingRequest.emit('error', failure);
+	});
+
+	it('should abort the request when the request is aborted', () => {
+		var controller = new Transport.AbortController();
+
+		new NodeHttpTransport().send({ method: 'GET', url: 'https://api.getconnect.io/events/purchases', headers: {}, signal: controller.signal });
+		controller.abort();
+
+		expect(pendingRequest.abort.calledOnce).to.be.true;
+	});
+});
@@ -0,0 +1,75 @@
+import chai = require('chai');
+import sinon = require('sinon');
+import proxyquire = require('proxyquire');
+import Transport = require('../../../lib/core/transports/transport');
+
+var expect = chai.expect;
+
+describe('SuperagentTransport', () => {
+	var request: SinonStub,
+		pendingRequest: any,
+		transport: Transport.Transport;
+
+	beforeEach(() => {
+		pendingRequest = {
+			set: sinon.spy(),
+			send: sinon.spy(),
+			end: sinon.spy(),
+			abort: sinon.spy()
+		};
+		request = sinon.stub().returns(pendingRequest);
+
+		var SuperagentTransport = proxyquire('../../../lib/core/transports/superagent', {
+			'superagent': request
+		});
+
+		transport = new SuperagentTransport();
+	});
+
+	it('should send the method, headers and body', () => {
+		transport.send({ method: 'POST', url: 'https://api.getconnect.io/events/purchases', headers: { 'X-Api-Key': 'key' }, body: '{"price":10}' });
+
+		expect(request.calledWith('POST', 'https://api.getconnect.io/events/purchases')).to.be.true;
+		expect(pendingRequest.set.calledWith('X-Api-Key', 'key')).to.be.true;
+		expect(pendingRequest.send.calledWith('{"price":10}')).to.be.true;
+	});
+
+	it('should not send a body when there is none', () => {
+		transport.send({ method: 'GET', url: 'https://api.getconnect.io/events/purchases', headers: {} });
+
+		expect(pendingRequest.send.called).to.be.false;
+	});
+
+	it('should resolve with the response of error statuses', done => {
+		transport.send({ method: 'GET', url: 'https://api.getconnect.io/events/purchases', headers: {} }).then(response => {
+			expect(response.status).to.equal(503);
+			expect(response.headers).to.deep.equal({ 'retry-after': '5' });
+			expect(response.body).to.deep.equal({ errorMessage: 'Unavailable' });
+			done();
+		});
+
+		var response = { status: 503, header: { 'retry-after': '5' }, body: {}, text: '{"errorMessage":"Unavailable"}' };
+
+		pendingRequest.end.firstCall.args[0]({ response: response }, null);
+	});
+
+	it('should reject when there is no response', done => {
+		var failure = new Error('Request has been terminated');
+
+		transport.send({ method: 'GET', url: 'https://api.getconnect.io/events/purchases', headers: {} }).then(null, error => {
+			expect(error).to.equal(failure);
+			done();
+		});
+
+		pendingRequest.end.firstCall.args[0](failure, null);
+	});
+
+	it('should abort the request when the request is aborted', () => {
+		var controller = new Transport.AbortController();
+
+		transport.send({ method: 'GET', url: 'https://api.getconnect.io/events/purchases', headers: {}, signal: controller.signal });
+		controller.abort();
+
+		expect(pendingRequest.abort.calledOnce).to.be.true;
+	});
+});
@@ -0,0 +1,32 @@
+import chai = require('chai');
+import ErrorHandling = require('../../lib/viz/error-handling');
+import Errors = require('../../lib/core/errors');
+
+var expect = chai.expect;
+
+describe('ErrorHandling', () => {
+	describe('#errorTypeFor()', () => {
+		it('should map connect errors to friendly error types', () => {
+			expect(ErrorHandling.errorTypeFor(new Errors.ConnectNotFoundError('Not found', 404))).to.equal('noResults');
+			expect(ErrorHandling.errorTypeFor(new Errors.ConnectNetworkError('Network failure', 'NetworkFailure'))).to.equal('network');
+			expect(ErrorHandling.errorTypeFor(new Errors.ConnectNetworkError('Bad gateway', 502))).to.equal('network');
+			expect(ErrorHandling.errorTypeFor(new Errors.ConnectAuthError('A read key is required to run queries.', 'MissingKey'))).to.equal('unauthorized');
+			expect(ErrorHandling.errorTypeFor(new Errors.ConnectQueryError('interval: Unknown interval', 'Invalid'))).to.equal('invalidQuery');
+			expect(ErrorHandling.errorTypeFor(new Errors.ConnectRateLimitError('Too many requests', 429))).to.equal('rateLimited');
+			expect(ErrorHandling.errorTypeFor(new Errors.ConnectTimeoutError(1000))).to.equal('timeout');
+			expect(ErrorHandling.errorTypeFor(new Errors.ConnectAbortError())).to.equal('aborted');
+		});
+
+		it('should map errors from another copy of the core classes by name', () => {
+			var error = { name: 'ConnectNotFoundError', status: 404, message: 'Not found' };
+
+			expect(ErrorHandling.errorTypeFor(error)).to.equal('noResults');
+		});
+
+		it('should fall back to a generic error', () => {
+			expect(ErrorHandling.errorTypeFor(new Errors.ConnectServerError('Internal error', 500))).to.equal('other');
+			expect(ErrorHandling.errorTypeFor(new Error('boom'))).to.equal('other');
+			expect(ErrorHandling.errorTypeFor(null)).to.equal('other');
+		});
+	});
+});
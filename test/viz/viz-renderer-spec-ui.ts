@@ -5,6 +5,7 @@ import sinon = require('sinon');
 import Connect = require('../../lib/core/connect');
 import VizRenderer = require('../../lib/viz/viz-renderer');
 import Text = require('../../lib/viz/text/text');
+import Subscription = require('../../lib/core/queries/subscription');
 
 var expect = chai.expect,
     Q = require('Q');
@@ -40,4 +41,25 @@ describe('VizRenderer', () => {
         });
     });
  
+    describe('When given a subscription', () => {
+        it("should render each new set of results", done => {
+            var totals = [16, 20],
+                executions = 0,
+                subscription = new Subscription.QuerySubscription(() => {
+                    var total = totals[Math.min(executions++, totals.length - 1)];
+
+                    return Q(new Connect.QueryResults({
+                        results: [{ sellPriceTotal: total }],
+                        metadata: {"groups":[],"interval":null,"timezone":"UTC"}
+                    }));
+                }, { everyMs: 10, pauseWhenHidden: false }),
+                renderer = new VizRenderer(container, subscription, {}, new Text());
+
+            setTimeout(() => {
+                expect(container.textContent).to.contain('20');
+                subscription.unsubscribe();
+                done();
+            }, 100);
+        });
+    });
 });
\ No newline at end of file